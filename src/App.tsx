@@ -1,136 +1,123 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import {
   ReactFlow,
   Background,
+  BaseEdge,
   Controls,
-  MarkerType,
-  Position,
+  EdgeLabelRenderer,
+  EdgeProps,
+  XYPosition,
+  getStraightPath,
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
-import ELK from "elkjs/lib/elk.bundled.js";
-
-type NodeId = string;
-
-type RFNodeData = {
-  label: string;
-  dist?: number;
-  status?: "unseen" | "frontier" | "settled" | "current" | "pivot" | "u-set";
-};
-
-type RFNode = {
-  id: NodeId;
-  type?: string;
-  position: { x: number; y: number };
-  data: RFNodeData;
-  sourcePosition?: Position;
-  targetPosition?: Position;
-  style?: React.CSSProperties;
-};
-
-type RFEdge = {
-  id: string;
-  source: NodeId;
-  target: NodeId;
-  label: string;
-  data?: { w: number };
-  markerEnd?: any;
-  style?: React.CSSProperties;
-  animated?: boolean;
-};
-
-type Graph = { nodes: RFNode[]; edges: RFEdge[] };
-
-interface StepSnapshot {
-  step: number;
-  description: string;
-  current?: NodeId; // extracted/processing vertex u
-  settled: Set<NodeId>;
-  frontier: Set<NodeId>;
-  dist: Record<NodeId, number>;
-  relaxing?: { u: NodeId; v: NodeId; w: number; improved: boolean };
-  pred: Record<NodeId, NodeId | undefined>; // parent pointers for shortest-path tree
-}
-
-interface PaperSnapshot extends StepSnapshot {
-  S: Set<NodeId>;
-  P?: Set<NodeId>;
-  Uchunk?: Set<NodeId>;
-  level?: number;
-  B?: number;
-  Bp?: number;
-}
-
-// ---------------- Utilities ----------------
-function seededRandom(seed: number) {
-  let s = seed >>> 0;
-  return () => {
-    s = (1664525 * s + 1013904223) >>> 0;
-    return s / 0xffffffff;
-  };
-}
-
-function generateGraph(n = 10, density = 0.18, seed = 42): Graph {
-  const rand = seededRandom(seed);
-  const nodes: RFNode[] = Array.from({ length: n }, (_, i) => ({
-    id: String(i),
-    position: { x: 0, y: 0 }, // ELK will position
-    data: { label: `v${i}`, status: "unseen", dist: i === 0 ? 0 : Infinity },
-    sourcePosition: Position.Right,
-    targetPosition: Position.Left,
-  }));
-
-  const edges: RFEdge[] = [];
-  for (let u = 0; u < n; u++) {
-    for (let v = 0; v < n; v++) {
-      if (u === v) continue;
-      if (rand() < density) {
-        const w = 1 + Math.floor(rand() * 9);
-        edges.push({
-          id: `${u}-${v}`,
-          source: String(u),
-          target: String(v),
-          label: String(w),
-          data: { w },
-          markerEnd: { type: MarkerType.ArrowClosed, width: 16, height: 16 },
-        });
-      }
-    }
-  }
-
-  if (!edges.some((e) => e.source === "0")) {
-    if (n > 1)
-      edges.push({
-        id: `0-1`,
-        source: "0",
-        target: "1",
-        label: "1",
-        data: { w: 1 },
-        markerEnd: { type: MarkerType.ArrowClosed },
-      });
-    if (n > 2)
-      edges.push({
-        id: `0-2`,
-        source: "0",
-        target: "2",
-        label: "4",
-        data: { w: 4 },
-        markerEnd: { type: MarkerType.ArrowClosed },
-      });
-  }
-
-  return { nodes, edges };
-}
-
-function cloneSet<T>(s: Set<T>): Set<T> {
-  return new Set(Array.from(s));
-}
-function clonePred(
-  pred: Record<NodeId, NodeId | undefined>
-): Record<NodeId, NodeId | undefined> {
-  const out: Record<NodeId, NodeId | undefined> = {};
-  for (const k in pred) out[k] = pred[k];
-  return out;
-}
+import {
+  EventKind,
+  Graph,
+  NodeId,
+  RFEdge,
+  RFNode,
+  RFNodeData,
+  StepSnapshot,
+  fmtDist,
+  negativeEdges,
+} from "./graph";
+import {
+  ALGORITHMS,
+  AlgorithmEntry,
+  AlgorithmOptions,
+  defaultOptions,
+  getAlgorithm,
+  runAlgorithm,
+  settingValue,
+} from "./algorithms";
+import { mapSnapshotBack, toConstantDegree } from "./constantDegree";
+import {
+  GENERATORS,
+  GeneratorParams,
+  clampParam,
+  defaultParams,
+  getGenerator,
+} from "./generators";
+import {
+  FORMATS,
+  GraphFormat,
+  detectFormat,
+  parseGraph,
+  serializeGraph,
+} from "./graphFormats";
+import { ValidationIssue, autoFix, validateGraph } from "./validateGraph";
+import {
+  addEdge,
+  addNode,
+  deleteEdge,
+  deleteNode,
+  reverseEdge,
+  setWeight,
+} from "./graphEdits";
+import { LAYOUTS, LayoutKind, hasPositions, layoutGraph } from "./layout";
+import { OracleReport, referenceDistances, verifyFinal } from "./oracle";
+import {
+  MAX_EMBEDDED_GRAPH,
+  UrlState,
+  compressGraph,
+  decodeHash,
+  decompressGraph,
+  encodeHash,
+} from "./urlState";
+import {
+  LibraryEntry,
+  LibraryKind,
+  LibraryUpdate,
+  deleteEntry,
+  duplicateEntry,
+  exportLibrary,
+  importLibrary,
+  listEntries,
+  renameEntry,
+  saveEntry,
+} from "./library";
+import {
+  EVENT_KINDS,
+  eventColor,
+  eventRuns,
+  findEvent,
+  kindsIn,
+} from "./timeline";
+import {
+  BREAKPOINT_KINDS,
+  Breakpoint,
+  BreakpointKind,
+  describeBreakpoint,
+  firstHit,
+} from "./breakpoints";
+import {
+  ALIGN_MODES,
+  AlignMode,
+  alignNext,
+  orderDifference,
+  settleOrder,
+} from "./alignment";
+import { METRICS, metricSeries, sampleSeries } from "./metrics";
+import { PathRow, pathTable, treePairs } from "./pathTable";
+import {
+  PracticeAnswer,
+  Question,
+  exportSession,
+  gradeAnswer,
+  nextQuestion,
+  promptOf,
+  scoreOf,
+} from "./practice";
+import { Procedure, pseudocodeLocals } from "./pseudocode";
+import { DiffRow, diffRows } from "./stateDiff";
+import { styles } from "./styles";
 
 // Build path from pred to end
 function buildPathPairs(
@@ -155,386 +142,1783 @@ function buildPathPairs(
   return { pairs, nodes };
 }
 
-// ---------------- Dijkstra steps ----------------
-function runDijkstraSteps(graph: Graph, src: NodeId): StepSnapshot[] {
-  const { nodes, edges } = graph;
-  const adj: Record<NodeId, { v: NodeId; w: number }[]> = {};
-  nodes.forEach((n) => (adj[n.id] = []));
-  edges.forEach((e) =>
-    adj[e.source]?.push({ v: e.target, w: e.data?.w ?? Number(e.label) })
+// ---------- Helpers to render STATE TABLES ----------
+function statusFor(
+  nid: NodeId,
+  snap: StepSnapshot,
+  entry: AlgorithmEntry,
+  extra?: { startId: NodeId; endId: NodeId; pathNodes?: Set<NodeId> }
+) {
+  const tags: string[] = [];
+  if (nid === extra?.startId) tags.push("start");
+  if (nid === extra?.endId) tags.push("end");
+  if (snap.current === nid) tags.push("current");
+  tags.push(...(entry.nodeTags?.(nid, snap) ?? []));
+  if (snap.settled.has(nid)) tags.push("settled");
+  else if (snap.frontier.has(nid)) tags.push("frontier");
+  if (extra?.pathNodes?.has(nid)) tags.push("path");
+  return tags.join(" · ");
+}
+
+// Final-state check against Bellman–Ford (see oracle.ts).
+const oracleBadge: React.CSSProperties = {
+  fontSize: 11,
+  fontWeight: 600,
+  padding: "1px 6px",
+  borderRadius: 9999,
+  background: "#fef3c7",
+  color: "#b45309",
+  border: "1px solid #f59e0b",
+};
+
+function OracleBadge({ report }: { report?: OracleReport }) {
+  if (!report || report.skipped) return null;
+  const bad = Object.keys(report.mismatches);
+  if (bad.length === 0)
+    return (
+      <span style={{ ...styles.small, color: "#10b981" }}>✓ verified</span>
+    );
+  return (
+    <span
+      style={oracleBadge}
+      title={bad
+        .map((v) => `${v}: ${report.mismatches[v].join("; ")}`)
+        .join("\n")}
+    >
+      ⚠ {bad.length} node{bad.length === 1 ? "" : "s"} disagree with
+      Bellman–Ford
+    </span>
   );
+}
 
-  const dist: Record<NodeId, number> = {};
-  nodes.forEach((n) => (dist[n.id] = Infinity));
-  dist[src] = 0;
-
-  const pred: Record<NodeId, NodeId | undefined> = {};
-
-  const settled = new Set<NodeId>();
-  const frontier = new Set<NodeId>([src]);
-  const pq: { id: NodeId; d: number }[] = [{ id: src, d: 0 }];
-
-  const steps: StepSnapshot[] = [];
-  let step = 0;
-  const pushStep = (snap: Partial<StepSnapshot>) => {
-    steps.push({
-      step: step++,
-      description: snap.description ?? "",
-      current: snap.current,
-      settled: cloneSet(settled),
-      frontier: cloneSet(frontier),
-      dist: { ...dist },
-      relaxing: snap.relaxing,
-      pred: clonePred(pred),
-    });
+function InternalTable({
+  title,
+  entry,
+  snap,
+  rows,
+  startId,
+  endId,
+  pathNodes,
+  report,
+}: {
+  title: string;
+  entry: AlgorithmEntry;
+  snap: StepSnapshot;
+  rows: RFNode[];
+  startId: NodeId;
+  endId: NodeId;
+  pathNodes?: Set<NodeId>;
+  report?: OracleReport;
+}) {
+  return (
+    <div style={styles.card}>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "baseline",
+        }}
+      >
+        <div style={{ fontWeight: 600, fontSize: 14 }}>
+          {title} <OracleBadge report={report} />
+        </div>
+        <div style={styles.small}>
+          Step {snap.step}: {snap.description}
+        </div>
+      </div>
+      <div style={{ marginTop: 8, overflowX: "auto" }}>
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={styles.th}>Node</th>
+              <th style={styles.th}>dist</th>
+              <th style={styles.th}>pred</th>
+              <th style={styles.th}>status / sets</th>
+              {(entry.columns ?? []).map((c) => (
+                <th key={c.header} style={styles.th}>
+                  {c.header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((n) => (
+              <tr key={`${title}-row-${n.id}`}>
+                <td style={styles.td}>
+                  <code>{n.data.label}</code>
+                  {report?.mismatches[n.id] && (
+                    <span
+                      title={report.mismatches[n.id].join("\n")}
+                      style={{ ...oracleBadge, marginLeft: 6 }}
+                    >
+                      ⚠
+                    </span>
+                  )}
+                </td>
+                <td style={styles.td}>
+                  <code>{fmtDist(snap.dist[n.id])}</code>
+                </td>
+                <td style={styles.td}>
+                  <code>{snap.pred[n.id] ?? "—"}</code>
+                </td>
+                <td style={styles.td}>
+                  {statusFor(n.id, snap, entry, { startId, endId, pathNodes })}
+                </td>
+                {(entry.columns ?? []).map((c) => (
+                  <td key={c.header} style={styles.td}>
+                    {c.cell(n.id, snap)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div style={{ marginTop: 8, fontSize: 12, color: "#334155" }}>
+        <div>
+          <b>Settled:</b> {[...Array.from(snap.settled)].join(", ") || "—"}
+        </div>
+        <div>
+          <b>Frontier:</b> {[...Array.from(snap.frontier)].join(", ") || "—"}
+        </div>
+        {entry.details?.(snap)}
+      </div>
+    </div>
+  );
+}
+
+// ---------- import report ----------
+function ImportReport({
+  name,
+  issues,
+  onFix,
+  onLoad,
+  onCancel,
+}: {
+  name: string;
+  issues: ValidationIssue[];
+  onFix: () => void;
+  onLoad: () => void;
+  onCancel: () => void;
+}) {
+  const errors = issues.filter((i) => i.severity === "error");
+  const warnings = issues.filter((i) => i.severity === "warning");
+  const fixable = issues.some((i) => i.fix);
+  // an empty graph cannot be repaired
+  const blocked = errors.some((i) => !i.fix);
+  const color = { error: "#dc2626", warning: "#b45309" };
+
+  return (
+    <div
+      style={{
+        ...styles.card,
+        marginTop: 16,
+        borderColor: errors.length > 0 ? "#fca5a5" : "#fcd34d",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "baseline",
+        }}
+      >
+        <div style={{ fontWeight: 600, fontSize: 14 }}>
+          Import check: <code>{name}</code>
+        </div>
+        <div style={styles.small}>
+          {errors.length} error{errors.length === 1 ? "" : "s"} ·{" "}
+          {warnings.length} warning{warnings.length === 1 ? "" : "s"}
+        </div>
+      </div>
+      <table style={{ ...styles.table, marginTop: 8 }}>
+        <thead>
+          <tr>
+            <th style={styles.th}>severity</th>
+            <th style={styles.th}>path</th>
+            <th style={styles.th}>problem</th>
+            <th style={styles.th}>auto-fix</th>
+          </tr>
+        </thead>
+        <tbody>
+          {[...errors, ...warnings].map((i, k) => (
+            <tr key={`issue-${k}`}>
+              <td style={{ ...styles.td, color: color[i.severity] }}>
+                {i.severity}
+              </td>
+              <td style={styles.td}>
+                <code>{i.path}</code>
+              </td>
+              <td style={styles.td}>{i.message}</td>
+              <td style={styles.td}>{i.fix ?? "—"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+        {fixable && !blocked && (
+          <button style={styles.buttonPrimary} onClick={onFix}>
+            Auto-fix and load
+          </button>
+        )}
+        {errors.length === 0 && (
+          <button style={styles.button} onClick={onLoad}>
+            Load as is
+          </button>
+        )}
+        <button style={styles.button} onClick={onCancel}>
+          Cancel import
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function LibraryCard({
+  entries,
+  error,
+  onSave,
+  onLoad,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport,
+}: {
+  entries: LibraryEntry[];
+  error?: string; // last write the browser refused
+  onSave: (kind: LibraryKind, name: string) => void;
+  onLoad: (entry: LibraryEntry) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (e: React.ChangeEvent<HTMLInputElement>) => void;
+}) {
+  const [name, setName] = useState("");
+  const save = (kind: LibraryKind) => {
+    onSave(kind, name.trim() || `Untitled ${kind}`);
+    setName("");
   };
 
-  pushStep({
-    description: `Init: dist(${src}) = 0; PQ ← {${src}}; frontier ← {${src}}`,
-  });
+  return (
+    <div style={{ ...styles.card, marginTop: 16 }}>
+      <div style={{ fontWeight: 600, fontSize: 14 }}>Library</div>
+      <div
+        style={{
+          display: "flex",
+          gap: 8,
+          flexWrap: "wrap" as const,
+          alignItems: "center",
+          marginTop: 8,
+        }}
+      >
+        <input
+          placeholder="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <button style={styles.button} onClick={() => save("graph")}>
+          Save graph
+        </button>
+        <button style={styles.button} onClick={() => save("session")}>
+          Save session
+        </button>
+        <span style={{ flex: 1 }} />
+        <button
+          style={styles.button}
+          disabled={entries.length === 0}
+          onClick={onExport}
+        >
+          Export library
+        </button>
+        <label style={styles.small}>
+          Import library{" "}
+          <input type="file" accept=".json" onChange={onImport} />
+        </label>
+      </div>
+      <div style={styles.small}>
+        A graph entry keeps only the graph; a session also keeps the generator
+        settings, start/end, panels and their step positions.
+      </div>
+      {error && (
+        <div style={{ ...styles.small, color: "#dc2626", marginTop: 6 }}>
+          {error}
+        </div>
+      )}
+      {entries.length > 0 && (
+        <table style={{ ...styles.table, marginTop: 8 }}>
+          <thead>
+            <tr>
+              <th style={styles.th}>name</th>
+              <th style={styles.th}>kind</th>
+              <th style={styles.th}>saved</th>
+              <th style={styles.th}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((e) => (
+              <tr key={`entry-${e.id}`}>
+                <td style={styles.td}>{e.name}</td>
+                <td style={styles.td}>{e.kind}</td>
+                <td style={styles.td}>
+                  {new Date(e.savedAt).toLocaleString()}
+                </td>
+                <td style={{ ...styles.td, whiteSpace: "nowrap" }}>
+                  <button style={styles.button} onClick={() => onLoad(e)}>
+                    Load
+                  </button>{" "}
+                  <button
+                    style={styles.button}
+                    onClick={() => {
+                      const next = window.prompt("Rename entry", e.name);
+                      if (next?.trim()) onRename(e.id, next.trim());
+                    }}
+                  >
+                    Rename
+                  </button>{" "}
+                  <button
+                    style={styles.button}
+                    onClick={() => onDuplicate(e.id)}
+                  >
+                    Duplicate
+                  </button>{" "}
+                  <button
+                    style={styles.button}
+                    onClick={() => {
+                      if (window.confirm(`Delete "${e.name}"?`)) onDelete(e.id);
+                    }}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
 
-  while (pq.length > 0) {
-    let minIdx = 0;
-    for (let i = 1; i < pq.length; i++) if (pq[i].d < pq[minIdx].d) minIdx = i;
-    const { id: u } = pq.splice(minIdx, 1)[0];
-    if (settled.has(u)) continue;
-
-    settled.add(u);
-    frontier.delete(u);
-    pushStep({ description: `Extract-min: settle ${u}`, current: u });
-
-    for (const { v, w } of adj[u] ?? []) {
-      const cand = dist[u] + w;
-      const improved = cand < dist[v];
-      if (improved) {
-        dist[v] = cand;
-        pred[v] = u;
-        pq.push({ id: v, d: cand });
-        frontier.add(v);
-      }
-      pushStep({
-        description: improved
-          ? `Relax (${u} → ${v}, w=${w}): dist(${v}) ← ${cand}`
-          : `Relax (${u} → ${v}, w=${w}): no improvement`,
-        current: u,
-        relaxing: { u, v, w, improved },
-      });
-    }
+// ---------- node/edge styling ----------
+const circleBase: React.CSSProperties = {
+  width: 44,
+  height: 44,
+  borderRadius: "50%",
+  display: "flex",
+  alignItems: "center",
+  justifyContent: "center",
+  border: "2px solid #cbd5e1",
+  background: "#ffffff",
+  boxShadow: "0 1px 0 rgba(0,0,0,0.04)",
+};
+
+function styleNodesFromSnapshot(
+  baseNodes: RFNode[],
+  snap: StepSnapshot,
+  extra?: {
+    pivots?: Set<NodeId>;
+    U?: Set<NodeId>;
+    startId?: NodeId;
+    endId?: NodeId;
+    pathNodes?: Set<NodeId>;
+    fills?: Record<NodeId, string>;
+    pinned?: Set<NodeId>;
   }
+) {
+  const activeU = snap.relaxing?.u;
+  const activeV = snap.relaxing?.v;
+
+  return baseNodes.map((n) => {
+    if (n.type === "group") return n;
+    const status: RFNodeData["status"] =
+      snap.current === n.id
+        ? "current"
+        : extra?.pivots?.has(n.id)
+        ? "pivot"
+        : extra?.U?.has(n.id)
+        ? "u-set"
+        : snap.settled.has(n.id)
+        ? "settled"
+        : snap.frontier.has(n.id)
+        ? "frontier"
+        : "unseen";
+
+    let style: React.CSSProperties = { ...circleBase };
+
+    // Algorithm-specific fill (e.g. bucket index)
+    if (extra?.fills?.[n.id]) {
+      style = { ...style, background: extra.fills[n.id] };
+    }
 
-  return steps;
+    // Active consideration (light blue)
+    if (n.id === activeU || n.id === activeV || n.id === snap.current) {
+      style = {
+        ...style,
+        background: "#dbeafe",
+        border: "2px solid #60a5fa",
+      };
+    }
+
+    // FindPivots pivots (purple outline)
+    if (extra?.pivots?.has(n.id)) {
+      style = { ...style, border: "2px solid #a855f7" };
+    }
+
+    // Shortest path (green outline)
+    if (extra?.pathNodes?.has(n.id)) {
+      style = { ...style, border: "2px solid #10b981" };
+    }
+
+    // Pinned by dragging (dashed ring)
+    if (extra?.pinned?.has(n.id)) {
+      style = { ...style, outline: "2px dashed #64748b", outlineOffset: 2 };
+    }
+
+    // Start / End overrides
+    if (n.id === extra?.startId) {
+      style = {
+        ...style,
+        background: "#fee2e2",
+        border: "2px solid #ef4444",
+      };
+    }
+    if (n.id === extra?.endId) {
+      style = {
+        ...style,
+        background: "#dcfce7",
+        border: "2px solid #10b981",
+      };
+    }
+
+    return {
+      ...n,
+      data: { ...n.data, status, dist: snap.dist[n.id] },
+      style,
+    };
+  });
 }
 
-// ---------------- Paper BMSSP-style steps ----------------
-function runPaperSteps(graph: Graph, src: NodeId): PaperSnapshot[] {
-  const { nodes, edges } = graph;
-  const adj: Record<NodeId, { v: NodeId; w: number }[]> = {};
-  nodes.forEach((n) => (adj[n.id] = []));
-  edges.forEach((e) =>
-    adj[e.source]?.push({ v: e.target, w: e.data?.w ?? Number(e.label) })
+function styleEdgesFromSnapshot(
+  baseEdges: RFEdge[],
+  snap: StepSnapshot,
+  pathPairs?: Set<string>,
+  markedPairs?: Set<string>,
+  markedColor = "#a855f7",
+  tree?: Set<string> // whole shortest-path tree, drawn under the path
+) {
+  const { relaxing } = snap;
+  return baseEdges.map((e) => {
+    const isActive =
+      relaxing && e.source === relaxing.u && e.target === relaxing.v;
+    const onPath = pathPairs?.has?.(`${e.source}|${e.target}`);
+    const marked = markedPairs?.has(`${e.source}|${e.target}`);
+    const inTree = tree?.has(`${e.source}|${e.target}`);
+    let style: React.CSSProperties = { strokeWidth: 1.5, opacity: 0.9 };
+    if (marked)
+      style = {
+        ...style,
+        stroke: markedColor,
+        strokeWidth: 2.5,
+        strokeDasharray: "6 3",
+      };
+    if (inTree) style = { ...style, stroke: "#6ee7b7", strokeWidth: 2 };
+    if (onPath) style = { ...style, stroke: "#10b981", strokeWidth: 3 };
+    if (isActive) style = { ...style, stroke: "#60a5fa", strokeWidth: 3 };
+    return { ...e, animated: !!isActive, style };
+  });
+}
+
+// ---------------- Editor ----------------
+// Panels get an apply() while edit mode is on and playback is paused; edges
+// then render with an inline weight box and reverse / delete buttons.
+type GraphEdit = (g: Graph) => Graph;
+const EditContext = createContext<((edit: GraphEdit) => void) | null>(null);
+
+function EditableEdge({
+  id,
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  label,
+  style,
+  markerEnd,
+}: EdgeProps) {
+  const apply = useContext(EditContext);
+  const [path, labelX, labelY] = getStraightPath({
+    sourceX,
+    sourceY,
+    targetX,
+    targetY,
+  });
+  const commit = (value: string) => {
+    const w = parseFloat(value);
+    if (Number.isFinite(w) && String(w) !== String(label))
+      apply?.((g) => setWeight(g, id, w));
+  };
+  return (
+    <>
+      <BaseEdge path={path} style={style} markerEnd={markerEnd} />
+      <EdgeLabelRenderer>
+        <div
+          className="nodrag nopan"
+          style={{
+            position: "absolute",
+            transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`,
+            pointerEvents: "all",
+            display: "flex",
+            gap: 2,
+            fontSize: 10,
+          }}
+        >
+          <input
+            key={String(label)} // reset when the weight changes elsewhere
+            defaultValue={String(label)}
+            style={{ width: 36, fontSize: 10 }}
+            onBlur={(e) => commit(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+          />
+          <button
+            title="Reverse edge"
+            onClick={() => apply?.((g) => reverseEdge(g, id))}
+          >
+            ⇄
+          </button>
+          <button
+            title="Delete edge"
+            onClick={() => apply?.((g) => deleteEdge(g, id))}
+          >
+            ✕
+          </button>
+        </div>
+      </EdgeLabelRenderer>
+    </>
   );
+}
 
-  const n = nodes.length;
-  const k = Math.max(2, Math.floor(Math.pow(Math.log2(Math.max(4, n)), 1 / 3)));
-  const t = Math.max(2, Math.floor(Math.pow(Math.log2(Math.max(4, n)), 2 / 3)));
-  const L = Math.max(1, Math.ceil(Math.log2(n) / Math.max(1, t)));
-
-  const dist: Record<NodeId, number> = {};
-  nodes.forEach((nn) => (dist[nn.id] = Infinity));
-  dist[src] = 0;
-
-  const pred: Record<NodeId, NodeId | undefined> = {};
-
-  const settled = new Set<NodeId>();
-  const frontier = new Set<NodeId>([src]);
-
-  let B = Number.POSITIVE_INFINITY;
-  let level = L;
-  let chunkIndex = 0;
-
-  const steps: PaperSnapshot[] = [];
-  let step = 0;
-  const push = (snap: Partial<PaperSnapshot>) => {
-    steps.push({
-      step: step++,
-      description: snap.description ?? "",
-      current: snap.current,
-      settled: cloneSet(settled),
-      frontier: cloneSet(frontier),
-      dist: { ...dist },
-      relaxing: snap.relaxing,
-      pred: clonePred(pred),
-      S: new Set(snap.S ? Array.from(snap.S) : Array.from(frontier)),
-      P: snap.P ? new Set(Array.from(snap.P)) : undefined,
-      Uchunk: snap.Uchunk ? new Set(Array.from(snap.Uchunk)) : undefined,
-      level: snap.level ?? level,
-      B: snap.B ?? B,
-      Bp: snap.Bp,
-    });
+const edgeTypes = { editable: EditableEdge };
+
+// ---------------- Timeline ----------------
+// Scrubber with one colored run per stretch of same-kind events; the chips
+// pick which kind ⏮ / ⏭ jump to.
+function Timeline({
+  steps,
+  index,
+  onSeek,
+  disabled,
+}: {
+  steps: StepSnapshot[];
+  index: number;
+  onSeek: (index: number) => void;
+  disabled?: boolean;
+}) {
+  const runs = useMemo(() => eventRuns(steps), [steps]);
+  const kinds = useMemo(() => kindsIn(steps), [steps]);
+  const [jumpKind, setJumpKind] = useState<EventKind>("extract");
+  const kind = kinds.includes(jumpKind) ? jumpKind : kinds[0];
+  const jump = (dir: 1 | -1) => {
+    const i = findEvent(steps, index, kind, dir);
+    if (i !== undefined) onSeek(i);
   };
+  const labelOf = (k: EventKind) =>
+    EVENT_KINDS.find((e) => e.kind === k)?.label ?? k;
 
-  while (true) {
-    const remaining = Array.from(nodes.map((n) => n.id)).some(
-      (id) => !settled.has(id) && dist[id] < Infinity
-    );
-    if (!remaining && frontier.size === 0) break;
+  return (
+    <div style={{ marginTop: 6 }}>
+      <div
+        style={{
+          display: "flex",
+          height: 10,
+          cursor: disabled ? "not-allowed" : "pointer",
+        }}
+        onClick={(e) => {
+          if (disabled) return;
+          const box = e.currentTarget.getBoundingClientRect();
+          const at = (e.clientX - box.left) / box.width;
+          onSeek(Math.round(at * (steps.length - 1)));
+        }}
+      >
+        {runs.map((r) => (
+          <div
+            key={`run-${r.from}`}
+            title={`${labelOf(r.kind)}: step ${r.from}${
+              r.to > r.from ? `–${r.to}` : ""
+            }`}
+            style={{
+              flex: `${r.to - r.from + 1} 1 0`,
+              background: eventColor(r.kind),
+            }}
+          />
+        ))}
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={steps.length - 1}
+        value={index}
+        disabled={disabled}
+        style={{ width: "100%", margin: 0 }}
+        onChange={(e) => onSeek(parseInt(e.target.value))}
+      />
+      <div
+        style={{
+          display: "flex",
+          gap: 4,
+          flexWrap: "wrap" as const,
+          alignItems: "center",
+          fontSize: 11,
+        }}
+      >
+        <button
+          style={styles.button}
+          title="Previous event of the chosen kind"
+          disabled={disabled}
+          onClick={() => jump(-1)}
+        >
+          ⏮
+        </button>
+        {kinds.map((k) => (
+          <button
+            key={`kind-${k}`}
+            onClick={() => setJumpKind(k)}
+            style={{
+              ...styles.button,
+              padding: "2px 6px",
+              fontSize: 11,
+              border:
+                k === kind ? "2px solid #0f172a" : "1px solid transparent",
+            }}
+          >
+            <span
+              style={{
+                display: "inline-block",
+                width: 8,
+                height: 8,
+                marginRight: 4,
+                background: eventColor(k),
+              }}
+            />
+            {labelOf(k)}
+          </button>
+        ))}
+        <button
+          style={styles.button}
+          title="Next event of the chosen kind"
+          disabled={disabled}
+          onClick={() => jump(1)}
+        >
+          ⏭
+        </button>
+      </div>
+    </div>
+  );
+}
 
-    const Sset = new Set<NodeId>(frontier);
-    const Ssorted = Array.from(Sset).sort((a, b) => dist[a] - dist[b]);
-    const P = new Set<NodeId>(
-      Ssorted.slice(0, Math.max(1, Math.ceil(Ssorted.length / Math.max(1, k))))
-    );
+// ---------------- Breakpoints ----------------
+function BreakpointList({
+  breakpoints,
+  nodes,
+  edges,
+  hit,
+  onAdd,
+  onRemove,
+}: {
+  breakpoints: Breakpoint[];
+  nodes: RFNode[];
+  edges: RFEdge[];
+  hit?: Breakpoint; // the one that paused playback
+  onAdd: (bp: Breakpoint) => void;
+  onRemove: (index: number) => void;
+}) {
+  const [kind, setKind] = useState<BreakpointKind>("settled");
+  const [node, setNode] = useState<NodeId>("");
+  const [edge, setEdge] = useState("");
+  const [value, setValue] = useState(10);
+  const targets = nodes.filter((n) => n.type !== "group");
+  const nodeId = targets.some((n) => n.id === node) ? node : targets[0]?.id;
+  const e = edges.find((x) => x.id === edge) ?? edges[0];
+
+  const add = () => {
+    if (kind === "settled" || kind === "dist-decrease") {
+      if (nodeId !== undefined) onAdd({ kind, node: nodeId });
+    } else if (kind === "relax-edge") {
+      if (e) onAdd({ kind, u: e.source, v: e.target });
+    } else if (kind === "level-change") onAdd({ kind });
+    else onAdd({ kind, value });
+  };
 
-    push({
-      description: `Level ${level}: FindPivots on S. Choose pivots P.`,
-      S: Sset,
-      P,
-      level,
-      B,
-    });
+  return (
+    <div
+      style={{
+        display: "flex",
+        gap: 4,
+        flexWrap: "wrap" as const,
+        alignItems: "center",
+        marginTop: 6,
+        fontSize: 11,
+      }}
+    >
+      <span>Breakpoints:</span>
+      {breakpoints.map((bp, i) => (
+        <span
+          key={`bp-${i}`}
+          style={{
+            ...styles.button,
+            padding: "2px 6px",
+            fontSize: 11,
+            border: bp === hit ? "2px solid #dc2626" : "1px solid #e2e8f0",
+          }}
+        >
+          ● {describeBreakpoint(bp)}{" "}
+          <button
+            title="Remove breakpoint"
+            style={{ border: "none", background: "none", cursor: "pointer" }}
+            onClick={() => onRemove(i)}
+          >
+            ✕
+          </button>
+        </span>
+      ))}
+      <select
+        value={kind}
+        onChange={(ev) => setKind(ev.target.value as BreakpointKind)}
+      >
+        {BREAKPOINT_KINDS.map((k) => (
+          <option key={`bpk-${k.kind}`} value={k.kind}>
+            {k.label}
+          </option>
+        ))}
+      </select>
+      {(kind === "settled" || kind === "dist-decrease") && (
+        <select value={nodeId} onChange={(ev) => setNode(ev.target.value)}>
+          {targets.map((n) => (
+            <option key={`bpn-${n.id}`} value={n.id}>
+              {n.data.label}
+            </option>
+          ))}
+        </select>
+      )}
+      {kind === "relax-edge" && (
+        <select value={e?.id} onChange={(ev) => setEdge(ev.target.value)}>
+          {edges.map((x) => (
+            <option key={`bpe-${x.id}`} value={x.id}>
+              {x.source} → {x.target}
+            </option>
+          ))}
+        </select>
+      )}
+      {kind === "bound-below" && (
+        <input
+          type="number"
+          value={value}
+          style={{ width: 56 }}
+          onChange={(ev) => setValue(parseFloat(ev.target.value) || 0)}
+        />
+      )}
+      <button style={styles.button} onClick={add}>
+        Add
+      </button>
+    </div>
+  );
+}
 
-    type PQItem = { id: NodeId; d: number; parent?: NodeId };
-    const pq: PQItem[] = [];
-    const localExtracted: NodeId[] = [];
-    const U = new Set<NodeId>();
-    for (const p of Array.from(P)) pq.push({ id: p, d: dist[p] });
-
-    // eslint-disable-next-line no-loop-func
-    const relaxEdge = (u: NodeId, v: NodeId, w: number) => {
-      const cand = dist[u] + w;
-      const improved = cand < dist[v] && cand < B;
-      if (improved) {
-        dist[v] = cand;
-        pred[v] = u;
-        pq.push({ id: v, d: cand, parent: u });
-        frontier.add(v);
-      }
-      push({
-        description: improved
-          ? `BaseCase relax (${u} → ${v}, w=${w}): dist(${v}) ← ${cand}`
-          : `BaseCase relax (${u} → ${v}): no improvement (or ≥ B)`,
-        relaxing: { u, v, w, improved },
-        S: Sset,
-        P,
-      });
-    };
+// ---------------- Diff view ----------------
+// Two panels' current states merged per vertex; differing cells are shaded.
+function DiffView({
+  names,
+  pair,
+  onPair,
+  rows,
+  labels,
+}: {
+  names: string[]; // one per panel, in panel order
+  pair: [number, number];
+  onPair: (pair: [number, number]) => void;
+  rows: DiffRow[];
+  labels: Record<NodeId, string>;
+}) {
+  const [onlyDiff, setOnlyDiff] = useState(false);
+  const differing = rows.filter(
+    (r) => r.differs.dist || r.differs.pred || r.differs.settled
+  );
+  const shown = onlyDiff ? differing : rows;
+  const mark = (on: boolean): React.CSSProperties =>
+    on ? { ...styles.td, background: "#fef3c7" } : styles.td;
+  const side = (k: 0 | 1) => (
+    <select
+      value={pair[k]}
+      onChange={(e) => {
+        const next: [number, number] = [...pair];
+        next[k] = Number(e.target.value);
+        onPair(next);
+      }}
+    >
+      {names.map((name, i) => (
+        <option key={`diff-${k}-${i}`} value={i}>
+          {name}
+        </option>
+      ))}
+    </select>
+  );
 
-    while (pq.length > 0 && localExtracted.length < k) {
-      let minIdx = 0;
-      for (let i = 1; i < pq.length; i++)
-        if (pq[i].d < pq[minIdx].d) minIdx = i;
-      const { id: u } = pq.splice(minIdx, 1)[0];
-      if (settled.has(u)) continue;
-      localExtracted.push(u);
-      settled.add(u);
-      frontier.delete(u);
-      U.add(u);
-      push({
-        description: `BaseCase extract ${u} (chunk ${chunkIndex + 1})`,
-        current: u,
-        S: Sset,
-        P,
-        Uchunk: U,
-      });
+  return (
+    <div style={{ ...styles.card, marginTop: 16 }}>
+      <div
+        style={{
+          display: "flex",
+          gap: 8,
+          alignItems: "center",
+          flexWrap: "wrap" as const,
+        }}
+      >
+        <div style={{ fontWeight: 600, fontSize: 14 }}>Diff</div>A {side(0)} vs
+        B {side(1)}
+        <span style={styles.small}>
+          {differing.length} of {rows.length} vertices differ
+        </span>
+        <label style={styles.checkboxRow as React.CSSProperties}>
+          <input
+            type="checkbox"
+            checked={onlyDiff}
+            onChange={(e) => setOnlyDiff(e.target.checked)}
+          />{" "}
+          Only differing rows
+        </label>
+      </div>
+      <table style={{ ...styles.table, marginTop: 8 }}>
+        <thead>
+          <tr>
+            <th style={styles.th}>node</th>
+            <th style={styles.th}>dist A</th>
+            <th style={styles.th}>dist B</th>
+            <th style={styles.th}>pred A</th>
+            <th style={styles.th}>pred B</th>
+            <th style={styles.th}>settled A</th>
+            <th style={styles.th}>settled B</th>
+            <th style={styles.th}>order A</th>
+            <th style={styles.th}>order B</th>
+            <th style={styles.th}>relax A</th>
+            <th style={styles.th}>relax B</th>
+          </tr>
+        </thead>
+        <tbody>
+          {shown.map((r) => (
+            <tr key={`diff-${r.id}`}>
+              <td style={styles.td}>{labels[r.id] ?? r.id}</td>
+              {r.dist.map((d, k) => (
+                <td key={`d${k}`} style={mark(r.differs.dist)}>
+                  {fmtDist(d)}
+                </td>
+              ))}
+              {r.pred.map((p, k) => (
+                <td key={`p${k}`} style={mark(r.differs.pred)}>
+                  {p === undefined ? "—" : labels[p] ?? p}
+                </td>
+              ))}
+              {r.settled.map((s, k) => (
+                <td key={`s${k}`} style={mark(r.differs.settled)}>
+                  {s ? "✓" : "·"}
+                </td>
+              ))}
+              {r.order.map((o, k) => (
+                <td key={`o${k}`} style={styles.td}>
+                  {o === undefined ? "—" : `#${o}`}
+                </td>
+              ))}
+              {r.relax.map((n, k) => (
+                <td key={`r${k}`} style={styles.td}>
+                  {n}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
 
-      const neigh = adj[u] ?? [];
-      for (const { v, w } of neigh) relaxEdge(u, v, w);
-    }
+// ---------------- Metrics ----------------
+// One small chart per counter over step index, one line per panel; each
+// panel's dashed cursor follows its current step.
+const PANEL_COLORS = ["#2563eb", "#f59e0b", "#10b981", "#a855f7", "#ef4444"];
+const panelColor = (k: number) => PANEL_COLORS[k % PANEL_COLORS.length];
+
+function MetricsCard({
+  traces,
+  names,
+  indices,
+}: {
+  traces: StepSnapshot[][];
+  names: string[]; // one per panel, in panel order
+  indices: number[];
+}) {
+  const W = 240;
+  const H = 80;
+  // Sampled once per trace; only the cursors move while playing.
+  const charts = useMemo(
+    () =>
+      METRICS.map((m) => {
+        const values = traces.map((steps) => metricSeries(steps, m.key));
+        const yMax = Math.max(1, ...values.flatMap((v) => v ?? []));
+        return {
+          ...m,
+          values,
+          yMax,
+          points: values.map((v) => (v ? sampleSeries(v) : [])),
+        };
+      }).filter((c) => c.values.some((v) => v)),
+    [traces]
+  );
+  const xMax = Math.max(1, ...traces.map((steps) => steps.length - 1));
+  const x = (i: number) => (i / xMax) * W;
+  const y = (v: number, yMax: number) => H - (v / yMax) * H;
 
-    let Bp = B;
-    if (pq.length > 0 && localExtracted.length >= k) {
-      let minIdx2 = 0;
-      for (let i = 1; i < pq.length; i++)
-        if (pq[i].d < pq[minIdx2].d) minIdx2 = i;
-      Bp = pq[minIdx2].d;
-    }
+  return (
+    <div style={{ ...styles.card, marginTop: 16 }}>
+      <div style={{ fontWeight: 600, fontSize: 14 }}>Metrics</div>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap" as const }}>
+        {names.map((name, k) => (
+          <span key={`legend-${k}`} style={styles.small}>
+            <span style={{ color: panelColor(k) }}>■</span> {name}
+          </span>
+        ))}
+      </div>
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fill, minmax(240px, 1fr))",
+          gap: 12,
+          marginTop: 8,
+        }}
+      >
+        {charts.map((c) => (
+          <div key={`metric-${c.key}`}>
+            <div style={styles.small}>
+              {c.label} (max {c.yMax})
+            </div>
+            <svg
+              viewBox={`0 0 ${W} ${H}`}
+              preserveAspectRatio="none"
+              style={{
+                width: "100%",
+                height: H,
+                background: "#f8fafc",
+                borderRadius: 6,
+              }}
+            >
+              {c.points.map((pts, k) => (
+                <polyline
+                  key={`line-${k}`}
+                  fill="none"
+                  stroke={panelColor(k)}
+                  strokeWidth={1.5}
+                  vectorEffect="non-scaling-stroke"
+                  points={pts
+                    .map(([i, v]) => `${x(i)},${y(v, c.yMax)}`)
+                    .join(" ")}
+                />
+              ))}
+              {c.values.map(
+                (v, k) =>
+                  v && (
+                    <line
+                      key={`cursor-${k}`}
+                      x1={x(indices[k])}
+                      x2={x(indices[k])}
+                      y1={0}
+                      y2={H}
+                      stroke={panelColor(k)}
+                      strokeDasharray="3 3"
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  )
+              )}
+            </svg>
+            <div style={{ ...styles.small, display: "flex", gap: 8 }}>
+              {c.values.map(
+                (v, k) =>
+                  v && (
+                    <span key={`value-${k}`} style={{ color: panelColor(k) }}>
+                      {v[indices[k]]}
+                    </span>
+                  )
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
 
-    push({
-      description: `End of chunk ${chunkIndex + 1}: U complete under B′`,
-      S: Sset,
-      P,
-      Uchunk: U,
-      Bp,
-    });
+// ---------------- Path table ----------------
+// Start → target paths from one panel's final pred pointers; clicking a row
+// makes its target the end node.
+function PathTableCard({
+  names,
+  choice,
+  onChoice,
+  table,
+  labels,
+  endId,
+  onEnd,
+}: {
+  names: string[]; // one per panel, in panel order
+  choice: number;
+  onChoice: (k: number) => void;
+  table?: { rows: PathRow[]; unreachable: NodeId[] }; // unset when disabled
+  labels: Record<NodeId, string>;
+  endId: NodeId;
+  onEnd: (id: NodeId) => void;
+}) {
+  const name = (id: NodeId) => labels[id] ?? id;
+  return (
+    <div style={{ ...styles.card, marginTop: 16 }}>
+      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+        <div style={{ fontWeight: 600, fontSize: 14 }}>Shortest paths</div>
+        <select
+          value={choice}
+          onChange={(e) => onChoice(Number(e.target.value))}
+        >
+          {names.map((n, k) => (
+            <option key={`paths-${k}`} value={k}>
+              {n}
+            </option>
+          ))}
+        </select>
+        <span style={styles.small}>
+          final state of the trace · click a row to make it the end node
+        </span>
+      </div>
+      {!table ? (
+        <div style={{ ...styles.small, marginTop: 8 }}>
+          This algorithm does not run on graphs with negative edges.
+        </div>
+      ) : (
+        <>
+          <table style={{ ...styles.table, marginTop: 8 }}>
+            <thead>
+              <tr>
+                <th style={styles.th}>target</th>
+                <th style={styles.th}>path</th>
+                <th style={styles.th}>weights</th>
+                <th style={styles.th}>total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.map((r) => (
+                <tr
+                  key={`path-${r.target}`}
+                  onClick={() => onEnd(r.target)}
+                  style={{
+                    cursor: "pointer",
+                    background: r.target === endId ? "#dcfce7" : undefined,
+                  }}
+                >
+                  <td style={styles.td}>{name(r.target)}</td>
+                  <td style={styles.td}>{r.vertices.map(name).join(" → ")}</td>
+                  <td style={styles.td}>{r.weights.join(" + ")}</td>
+                  <td style={styles.td}>{fmtDist(r.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div style={{ ...styles.small, marginTop: 6 }}>
+            <b>Unreachable:</b>{" "}
+            {table.unreachable.map(name).join(", ") || "none"}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
 
-    chunkIndex++;
-    if (Bp < B) {
-      B = Bp;
-    } else {
-      B = Number.POSITIVE_INFINITY;
-      level = Math.max(0, level - 1);
-    }
+// ---------------- Practice ----------------
+// Exercise mode: the practised panel waits on the step before each question;
+// extractions are answered by clicking a vertex in that panel. Until practice
+// stops, the step controls are disabled and the path table and algorithm
+// cards are hidden, since any of them would give the answers away.
+type PracticeSession = {
+  key: number; // practised panel
+  answers: PracticeAnswer[];
+  feedback?: PracticeAnswer; // last answer, shown until the next question
+};
 
-    const allSettled = nodes.every(
-      (n) => settled.has(n.id) || dist[n.id] === Infinity
-    );
-    if (allSettled) break;
-  }
+function PracticeCard({
+  names,
+  active,
+  question,
+  session,
+  onStart,
+  onStop,
+  onAnswer,
+  onNext,
+  onExport,
+}: {
+  names: string[]; // one per panel, in panel order
+  active?: number; // position of the practised panel
+  question?: Question;
+  session?: PracticeSession;
+  onStart: (k: number) => void;
+  onStop: () => void;
+  onAnswer: (given: string) => void;
+  onNext: () => void;
+  onExport: () => void;
+}) {
+  const [choice, setChoice] = useState(0);
+  const [value, setValue] = useState("");
+  const score = scoreOf(session?.answers ?? []);
+  const feedback = session?.feedback;
 
-  return steps as PaperSnapshot[];
+  return (
+    <div style={{ ...styles.card, marginTop: 16 }}>
+      <div
+        style={{
+          display: "flex",
+          gap: 8,
+          flexWrap: "wrap" as const,
+          alignItems: "center",
+        }}
+      >
+        <div style={{ fontWeight: 600, fontSize: 14 }}>Practice</div>
+        {active === undefined ? (
+          <>
+            <select
+              value={Math.min(choice, names.length - 1)}
+              onChange={(e) => setChoice(Number(e.target.value))}
+            >
+              {names.map((name, k) => (
+                <option key={`practice-${k}`} value={k}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <button
+              style={styles.buttonPrimary}
+              onClick={() => onStart(Math.min(choice, names.length - 1))}
+            >
+              Start
+            </button>
+            <span style={styles.small}>
+              Predict each extraction and relaxation, then see the step.
+            </span>
+          </>
+        ) : (
+          <>
+            <span style={styles.small}>
+              {names[active]} · score {score.correct}/{score.total}
+            </span>
+            <span style={{ flex: 1 }} />
+            <button
+              style={styles.button}
+              disabled={score.total === 0}
+              onClick={onExport}
+            >
+              Export results
+            </button>
+            <button style={styles.button} onClick={onStop}>
+              Stop
+            </button>
+          </>
+        )}
+      </div>
+
+      {active !== undefined && (
+        <div style={{ marginTop: 8, fontSize: 13 }}>
+          {feedback ? (
+            <>
+              <div
+                style={{
+                  fontWeight: 600,
+                  color: feedback.correct ? "#10b981" : "#dc2626",
+                }}
+              >
+                {feedback.correct
+                  ? "✓ Correct"
+                  : `✗ You answered ${
+                      feedback.given || "nothing"
+                    }; the answer is ${feedback.expected}`}
+              </div>
+              <div style={styles.small}>{feedback.explanation}</div>
+              <button
+                style={{ ...styles.button, marginTop: 6 }}
+                onClick={onNext}
+              >
+                Next question
+              </button>
+            </>
+          ) : question ? (
+            <>
+              <div>
+                <b>Q{score.total + 1}.</b> {promptOf(question)}
+              </div>
+              {question.kind === "settle" ? (
+                <div style={styles.small}>Click the vertex in the panel.</div>
+              ) : (
+                <form
+                  style={{ display: "flex", gap: 6, marginTop: 4 }}
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    onAnswer(value);
+                    setValue("");
+                  }}
+                >
+                  <input
+                    autoFocus
+                    placeholder="number or ∞"
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                  />
+                  <button type="submit" style={styles.button}>
+                    Check
+                  </button>
+                </form>
+              )}
+            </>
+          ) : (
+            <div style={styles.small}>
+              No questions left in this trace. Final score {score.correct}/
+              {score.total}.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
 }
 
-// ---------------- ELK layout ----------------
-const elk = new ELK();
-
-async function applyElkLayout(
-  graph: Graph,
-  direction: "RIGHT" | "DOWN" | "LEFT" | "UP" = "RIGHT"
-): Promise<Graph> {
-  const elkGraph: any = {
-    id: "root",
-    layoutOptions: {
-      "elk.algorithm": "layered",
-      "elk.direction": direction,
-      "elk.spacing.nodeNode": "60",
-      "elk.layered.spacing.nodeNodeBetweenLayers": "80",
-      "elk.layered.nodePlacement.bk.fixedAlignment": "BALANCED",
-    },
-    children: graph.nodes.map((n) => ({ id: n.id, width: 48, height: 48 })),
-    edges: graph.edges.map((e) => ({
-      id: e.id,
-      sources: [e.source],
-      targets: [e.target],
-    })),
+// ---------------- Pseudocode ----------------
+// The listing of one panel's algorithm with the executing line shaded and the
+// step's local variables beside it.
+function PseudocodeCard({
+  title,
+  code,
+  snap,
+}: {
+  title: string;
+  code: Procedure[];
+  snap: StepSnapshot;
+}) {
+  const locals = pseudocodeLocals(snap)
+    .map(({ name, value }) => `${name} = ${value}`)
+    .join(", ");
+  return (
+    <div style={{ ...styles.card, marginTop: 16 }}>
+      <div style={{ fontWeight: 600, fontSize: 14 }}>{title}: pseudocode</div>
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fill, minmax(360px, 1fr))",
+          gap: 12,
+          marginTop: 8,
+        }}
+      >
+        {code.map((proc) => (
+          <div key={proc.name}>
+            <div style={styles.small}>{proc.name}</div>
+            <pre style={{ margin: 0, fontSize: 12, lineHeight: 1.5 }}>
+              {proc.lines.map((l) => (
+                <div
+                  key={l.id}
+                  style={{
+                    paddingLeft: 6 + l.indent * 16,
+                    borderRadius: 4,
+                    whiteSpace: "pre-wrap" as const,
+                    fontWeight: l.indent === 0 ? 600 : undefined,
+                    background: l.id === snap.line ? "#fef3c7" : undefined,
+                  }}
+                >
+                  {l.text}
+                  {l.id === snap.line && locals && (
+                    <span style={{ ...styles.small, marginLeft: 12 }}>
+                      ◂ {locals}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </pre>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ---------------- Panels ----------------
+type PanelConfig = { key: number; algo: string; options: AlgorithmOptions };
+
+type PanelState = {
+  config: PanelConfig;
+  entry: AlgorithmEntry;
+  steps: StepSnapshot[];
+  index: number;
+  snap: StepSnapshot;
+  path: { pairs: Set<string>; nodes: Set<NodeId> };
+  done: boolean;
+  unreachable: boolean;
+  disabled: boolean; // non-negativity precondition violated
+  report?: OracleReport; // final state vs Bellman–Ford
+};
+
+function AlgorithmPanel({
+  panel,
+  layouted,
+  startId,
+  endId,
+  canRemove,
+  onAlgorithm,
+  onOptions,
+  onRemove,
+  onStep,
+  onSeek,
+  onInit,
+  pinned,
+  onMove,
+  onUnpin,
+  onEdit,
+  breakpoints,
+  breakHit,
+  onAddBreakpoint,
+  onRemoveBreakpoint,
+  onPick,
+  frozen,
+  showTree,
+}: {
+  panel: PanelState;
+  layouted: Graph;
+  startId: NodeId;
+  endId: NodeId;
+  canRemove: boolean;
+  onAlgorithm: (algo: string) => void;
+  onOptions: (options: AlgorithmOptions) => void;
+  onRemove: () => void;
+  onStep: (delta: number) => void;
+  onSeek: (index: number) => void;
+  onInit: (inst: any) => void;
+  pinned: Set<NodeId>;
+  onMove: (id: NodeId, position: XYPosition) => void;
+  onUnpin: (id: NodeId) => void;
+  onEdit?: (edit: GraphEdit) => void; // set while the graph is editable
+  breakpoints: Breakpoint[];
+  breakHit?: Breakpoint;
+  onAddBreakpoint: (bp: Breakpoint) => void;
+  onRemoveBreakpoint: (index: number) => void;
+  onPick?: (id: NodeId) => void; // set while practice awaits a vertex
+  frozen: boolean; // practice drives the steps; no seeking ahead
+  showTree: boolean;
+}) {
+  const { entry, snap, config } = panel;
+  const highlight = useMemo(() => entry.highlight?.(snap), [entry, snap]);
+  const flow = useRef<any>(null);
+  const wrap = useRef<HTMLDivElement>(null);
+  // right-click menu for setting breakpoints on a node or edge
+  const [menu, setMenu] = useState<{
+    x: number;
+    y: number;
+    items: Breakpoint[];
+  } | null>(null);
+  const openMenu = (e: React.MouseEvent, items: Breakpoint[]) => {
+    e.preventDefault();
+    const box = wrap.current!.getBoundingClientRect();
+    setMenu({ x: e.clientX - box.left, y: e.clientY - box.top, items });
   };
+  const [selected, setSelected] = useState<NodeId | null>(null);
+  const selectedNode = onEdit
+    ? layouted.nodes.find((n) => n.id === selected)
+    : undefined;
+  const styledNodes = useMemo(
+    () =>
+      styleNodesFromSnapshot(layouted.nodes, snap, {
+        pivots: highlight?.pivots,
+        U: highlight?.U,
+        fills: highlight?.fills,
+        startId,
+        endId,
+        pathNodes: panel.path.nodes,
+        pinned,
+      }),
+    [layouted.nodes, snap, highlight, startId, endId, panel.path.nodes, pinned]
+  );
+  const nodes = useMemo(
+    () =>
+      selectedNode
+        ? styledNodes.map((n) =>
+            n.id === selectedNode.id ? { ...n, selected: true } : n
+          )
+        : styledNodes,
+    [styledNodes, selectedNode]
+  );
+  const styledEdges = useMemo(
+    () =>
+      styleEdgesFromSnapshot(
+        layouted.edges,
+        snap,
+        panel.path.pairs,
+        highlight?.edges,
+        highlight?.edgeColor,
+        showTree ? treePairs(snap.pred) : undefined
+      ),
+    [layouted.edges, snap, panel.path.pairs, highlight, showTree]
+  );
+  const edges = onEdit
+    ? styledEdges.map((e) => ({ ...e, type: "editable" }))
+    : styledEdges;
+  const summary = entry.summary?.(snap);
 
-  const res = await elk.layout(elkGraph);
-  const posById: Record<string, { x: number; y: number }> = {};
-  (res.children || []).forEach((c: any) => {
-    posById[c.id] = { x: c.x ?? 0, y: c.y ?? 0 };
+  return (
+    <div style={styles.card}>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+        }}
+      >
+        <div style={{ fontWeight: 600, fontSize: 14 }}>
+          <select
+            value={entry.id}
+            onChange={(e) => onAlgorithm(e.target.value)}
+          >
+            {ALGORITHMS.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.name}
+              </option>
+            ))}
+          </select>{" "}
+          <OracleBadge report={panel.report} />
+        </div>
+        <div style={styles.small}>
+          {entry.complexity(config.options)}
+          {panel.unreachable ? " • end unreachable (∞)" : ""}{" "}
+          {canRemove && (
+            <button style={styles.button} onClick={onRemove}>
+              ✕
+            </button>
+          )}
+        </div>
+      </div>
+      <div
+        style={{
+          display: "flex",
+          gap: 8,
+          alignItems: "center",
+          flexWrap: "wrap" as const,
+          marginTop: 6,
+          fontSize: 12,
+        }}
+      >
+        <button
+          style={styles.button}
+          disabled={frozen}
+          onClick={() => onStep(-1)}
+        >
+          ◀︎
+        </button>
+        <span>
+          Step {panel.index} / {panel.steps.length - 1}
+        </span>
+        <button
+          style={styles.button}
+          disabled={frozen}
+          onClick={() => onStep(1)}
+        >
+          ▶︎
+        </button>
+        {(entry.settings ?? []).map((s) => (
+          <label key={s.key} style={styles.checkboxRow}>
+            {s.label}
+            {s.kind === "select" ? (
+              <select
+                value={String(config.options[s.key] ?? s.default)}
+                onChange={(e) =>
+                  onOptions({ ...config.options, [s.key]: e.target.value })
+                }
+              >
+                {s.choices.map((c) => (
+                  <option key={c.value} value={c.value}>
+                    {c.label}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="number"
+                min={s.min}
+                max={s.max}
+                step={s.step}
+                value={Number(config.options[s.key] ?? s.default)}
+                style={{ width: 64 }}
+                onChange={(e) =>
+                  onOptions({
+                    ...config.options,
+                    [s.key]: settingValue(s, parseFloat(e.target.value)),
+                  })
+                }
+              />
+            )}
+          </label>
+        ))}
+      </div>
+      <Timeline
+        steps={panel.steps}
+        index={panel.index}
+        onSeek={onSeek}
+        disabled={frozen}
+      />
+      <BreakpointList
+        breakpoints={breakpoints}
+        nodes={layouted.nodes}
+        edges={layouted.edges}
+        hit={breakHit}
+        onAdd={onAddBreakpoint}
+        onRemove={onRemoveBreakpoint}
+      />
+      {breakHit && (
+        <div style={{ ...styles.small, color: "#dc2626" }}>
+          ⏸ Paused at step {panel.index}: {describeBreakpoint(breakHit)}
+        </div>
+      )}
+      {panel.disabled && (
+        <div style={{ ...styles.small, color: "#dc2626" }}>
+          ⚠ {snap.description}
+        </div>
+      )}
+      {summary && <div style={styles.small}>{summary}</div>}
+      {onEdit && (
+        <div style={styles.small}>
+          Double-click the canvas to add a node; drag from a node's right handle
+          to another node to add an edge.{" "}
+          {selectedNode && (
+            <button
+              style={styles.button}
+              onClick={() => onEdit((g) => deleteNode(g, selectedNode.id))}
+            >
+              Delete {selectedNode.data.label}
+            </button>
+          )}
+        </div>
+      )}
+      <div
+        ref={wrap}
+        style={{ height: 420, width: "100%", position: "relative" }}
+      >
+        <EditContext.Provider value={onEdit ?? null}>
+          <ReactFlow
+            nodes={nodes as any}
+            edges={edges as any}
+            edgeTypes={edgeTypes}
+            fitView
+            defaultEdgeOptions={{ type: "straight" }}
+            nodesConnectable={!!onEdit}
+            zoomOnDoubleClick={!onEdit}
+            deleteKeyCode={onEdit ? ["Delete", "Backspace"] : null}
+            onNodesChange={(changes) =>
+              changes.forEach((c) => {
+                if (c.type === "position" && c.position)
+                  onMove(c.id, c.position);
+              })
+            }
+            onNodeClick={(_, n) => {
+              setSelected(n.id);
+              setMenu(null);
+              if (n.type !== "group") onPick?.(n.id);
+            }}
+            onNodeContextMenu={(e, n) =>
+              n.type !== "group" &&
+              openMenu(e, [
+                { kind: "settled", node: n.id },
+                { kind: "dist-decrease", node: n.id },
+              ])
+            }
+            onEdgeContextMenu={(e, edge) =>
+              openMenu(e, [
+                { kind: "relax-edge", u: edge.source, v: edge.target },
+              ])
+            }
+            onNodesDelete={(deleted) =>
+              onEdit?.((g) => deleted.reduce((h, n) => deleteNode(h, n.id), g))
+            }
+            onConnect={(c) => onEdit?.((g) => addEdge(g, c.source, c.target))}
+            onPaneClick={(e) => {
+              setSelected(null);
+              setMenu(null);
+              if (onEdit && e.detail === 2 && flow.current) {
+                const at = flow.current.screenToFlowPosition({
+                  x: e.clientX,
+                  y: e.clientY,
+                });
+                onEdit((g) => addNode(g, at));
+              }
+            }}
+            onNodeDoubleClick={(_, n) => onUnpin(n.id)}
+            onInit={(inst) => {
+              flow.current = inst;
+              onInit(inst);
+              // optional initial fit for first mount
+              inst.fitView({ padding: 0.1, includeHiddenNodes: true });
+            }}
+          >
+            <Background />
+            <Controls />
+          </ReactFlow>
+        </EditContext.Provider>
+        {menu && (
+          <div
+            style={{
+              ...styles.card,
+              position: "absolute",
+              left: menu.x,
+              top: menu.y,
+              zIndex: 10,
+              padding: 4,
+              display: "grid",
+              gap: 2,
+            }}
+          >
+            {menu.items.map((bp, i) => (
+              <button
+                key={`menu-${i}`}
+                style={{ ...styles.button, textAlign: "left" }}
+                onClick={() => {
+                  onAddBreakpoint(bp);
+                  setMenu(null);
+                }}
+              >
+                Break when {describeBreakpoint(bp)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ---------------- Main Component ----------------
+// Playback speed range, ms per step; links can ask for anything.
+const SPEED_MIN = 120;
+const SPEED_MAX = 1500;
+// Every panel runs its own trace; a link may not ask for more than this.
+const MAX_PANELS = 8;
+
+let nextPanelKey = 0;
+function newPanel(algo: string): PanelConfig {
+  return {
+    key: nextPanelKey++,
+    algo,
+    options: defaultOptions(getAlgorithm(algo)),
+  };
+}
+
+// Full view state from a share link or saved session; anything missing or
+// unknown falls back to the defaults, and numbers are clamped to the ranges
+// the controls allow.
+function resolveUrlState(url: UrlState) {
+  const family = getGenerator(url.family ?? "").id;
+  const genParams: Record<string, GeneratorParams> = Object.fromEntries(
+    GENERATORS.map((g) => [g.id, defaultParams(g)])
+  );
+  getGenerator(family).params.forEach((p) => {
+    const v = url.params?.[p.key];
+    if (v !== undefined) genParams[family][p.key] = clampParam(p, v);
   });
 
-  const nodes = graph.nodes.map((n) => ({
-    ...n,
-    position: posById[n.id] ?? n.position,
-  }));
-  return { nodes, edges: graph.edges };
+  let customGraph: Graph | null = null;
+  try {
+    if (url.graph) customGraph = decompressGraph(url.graph);
+  } catch {
+    // damaged link: show the generated graph instead
+  }
+
+  const indices: Record<number, number> = {};
+  const panels = (
+    url.panels ?? [
+      { algo: "bmssp", index: 0, options: {} },
+      { algo: "dijkstra", index: 0, options: {} },
+    ]
+  )
+    .slice(0, MAX_PANELS)
+    .map((p) => {
+      const entry = getAlgorithm(p.algo);
+      const config = newPanel(entry.id);
+      (entry.settings ?? []).forEach(
+        (s) => (config.options[s.key] = settingValue(s, p.options[s.key]))
+      );
+      indices[config.key] = Math.max(0, Math.round(p.index));
+      return config;
+    });
+
+  const layout = LAYOUTS.some((l) => l.kind === url.layout)
+    ? url.layout!
+    : customGraph && hasPositions(customGraph)
+    ? "keep"
+    : "layered-RIGHT";
+
+  return {
+    family,
+    genParams,
+    seed: url.seed ?? 42,
+    customGraph,
+    constantDegree: url.constantDegree ?? false,
+    panels,
+    indices,
+    start: url.start,
+    end: url.end,
+    layout,
+    locked: url.locked ?? false,
+    align: ALIGN_MODES.some((a) => a.mode === url.align) ? url.align! : "step",
+    orderFrom: url.orderFrom ?? "distance",
+    speedMs: Math.min(SPEED_MAX, Math.max(SPEED_MIN, url.speedMs ?? 600)),
+  };
 }
 
-// ---------------- Small UI bits (no Tailwind) ----------------
-const styles = {
-  page: {
-    minHeight: "100vh",
-    width: "100%",
-    background: "#f8fafc",
-    color: "#0f172a",
-    fontFamily:
-      "system-ui, -apple-system, Segoe UI, Roboto, Ubuntu, Cantarell, Noto Sans, sans-serif",
-  },
-  container: { maxWidth: 1200, margin: "0 auto", padding: 16 },
-  h1: { fontSize: 22, fontWeight: 700, margin: 0 },
-  p: { marginTop: 6, fontSize: 13, color: "#475569" },
-  grid3: {
-    display: "grid",
-    gridTemplateColumns: "repeat(3, minmax(0,1fr))",
-    gap: 16,
-  },
-  card: {
-    border: "1px solid #e2e8f0",
-    background: "#fff",
-    borderRadius: 12,
-    padding: 12,
-  },
-  labelCol: { display: "flex", flexDirection: "column", gap: 6, fontSize: 13 },
-  button: {
-    padding: "6px 10px",
-    borderRadius: 8,
-    border: "1px solid #cbd5e1",
-    background: "#e2e8f0",
-    cursor: "pointer" as const,
-  },
-  buttonPrimary: {
-    padding: "6px 10px",
-    borderRadius: 8,
-    border: "1px solid #065f46",
-    background: "#059669",
-    color: "#fff",
-    cursor: "pointer" as const,
-  },
-  checkboxRow: { display: "flex", alignItems: "center", gap: 8 },
-  small: { fontSize: 12, color: "#64748b" },
-  flowWrap: { height: 420, width: "100%" },
-  twoCols: {
-    display: "grid",
-    gridTemplateColumns: "repeat(2, minmax(0,1fr))",
-    gap: 16,
-    marginTop: 16,
-  },
-  legendRow: {
-    display: "grid",
-    gridTemplateColumns: "repeat(3, minmax(0,1fr))",
-    gap: 8,
-    fontSize: 12,
-  },
-  legendItem: { display: "flex", alignItems: "center", gap: 8 },
-  dot: (bg: string) => ({
-    width: 12,
-    height: 12,
-    borderRadius: 4,
-    background: bg,
-    display: "inline-block",
-  }),
-  table: { width: "100%", borderCollapse: "collapse" as const, fontSize: 12 },
-  th: {
-    textAlign: "left" as const,
-    background: "#f1f5f9",
-    border: "1px solid #e2e8f0",
-    padding: "6px 8px",
-  },
-  td: { border: "1px solid #e2e8f0", padding: "6px 8px" },
-};
+const readUrlState = () => resolveUrlState(decodeHash(window.location.hash));
 
-// ---------------- Main Component ----------------
 export default function App() {
-  const [n, setN] = useState(10);
-  const [density, setDensity] = useState(0.18);
-  const [seed, setSeed] = useState(42);
-  const [customGraph, setCustomGraph] = useState<Graph | null>(null);
+  const [initial] = useState(readUrlState);
+  const [family, setFamily] = useState(initial.family);
+  // parameters per family, so switching back and forth keeps them
+  const [genParams, setGenParams] = useState(initial.genParams);
+  const [seed, setSeed] = useState(initial.seed);
+  const [customGraph, setCustomGraph] = useState(initial.customGraph);
 
   const baseGraph = useMemo(
-    () => customGraph ?? generateGraph(n, density, seed),
-    [n, density, seed, customGraph]
+    () => customGraph ?? getGenerator(family).build(genParams[family], seed),
+    [family, genParams, seed, customGraph]
   );
 
-  // ELK layout — recompute positions whenever the graph changes
-  const [layouted, setLayouted] = useState<Graph>(baseGraph);
-  useEffect(() => {
-    let alive = true;
-    (async () => {
-      const g = await applyElkLayout(baseGraph, "RIGHT");
-      if (alive) setLayouted(g);
-    })();
-    return () => {
-      alive = false;
-    };
-  }, [baseGraph]);
-
-  const [rfLeft, setRfLeft] = useState<any>(null);
-  const [rfRight, setRfRight] = useState<any>(null);
+  // Optional constant-degree preprocessing; the engines then run on the split
+  // vertices and the panels draw them grouped under their original vertex.
+  const [constantDegree, setConstantDegree] = useState(initial.constantDegree);
+  const transform = useMemo(
+    () => (constantDegree ? toConstantDegree(baseGraph) : null),
+    [constantDegree, baseGraph]
+  );
+  const runGraph = transform?.graph ?? baseGraph;
+  const viewGraph = useMemo(
+    () =>
+      transform
+        ? {
+            nodes: [...transform.groups, ...transform.graph.nodes],
+            edges: transform.graph.edges,
+          }
+        : baseGraph,
+    [transform, baseGraph]
+  );
 
-  useEffect(() => {
-    // small timeout lets ReactFlow finish measuring container size
-    const id = setTimeout(() => {
-      rfLeft?.fitView({
-        padding: 0.1,
-        includeHiddenNodes: true,
-        duration: 300,
-      });
-      rfRight?.fitView({
-        padding: 0.1,
-        includeHiddenNodes: true,
-        duration: 300,
-      });
-    }, 0);
-    return () => clearTimeout(id);
-  }, [layouted, rfLeft, rfRight]);
+  // Panels: one algorithm each, stepped independently or in lock-step
+  const [panels, setPanels] = useState(initial.panels);
+  const [indices, setIndices] = useState(initial.indices);
 
   // Start / End node selection
   const [startId, setStartId] = useState<NodeId>(
-    () => baseGraph.nodes[0]?.id ?? "0"
+    () => initial.start ?? baseGraph.nodes[0]?.id ?? "0"
   );
   const [endId, setEndId] = useState<NodeId>(
-    () => baseGraph.nodes[baseGraph.nodes.length - 1]?.id ?? "0"
+    () => initial.end ?? baseGraph.nodes[baseGraph.nodes.length - 1]?.id ?? "0"
   );
 
   useEffect(() => {
@@ -548,409 +1932,630 @@ export default function App() {
       );
   }, [baseGraph, endId, startId]);
 
-  const dijkSteps = useMemo(
-    () => runDijkstraSteps(baseGraph, startId),
-    [baseGraph, startId]
-  );
-  const paperSteps = useMemo(
-    () => runPaperSteps(baseGraph, startId),
-    [baseGraph, startId]
+  // Start / end as seen by the engines (the first cycle vertex when split)
+  const runStart = transform?.entry[startId] ?? startId;
+  const runEnd = transform?.entry[endId] ?? endId;
+
+  // Layout — recompute positions whenever the graph or the choice changes
+  const [layout, setLayout] = useState<LayoutKind>(initial.layout);
+  const layoutRoot = layout === "radial" ? startId : undefined;
+  const [layouted, setLayouted] = useState<Graph>(viewGraph);
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      const g = await layoutGraph(viewGraph, layout, layoutRoot);
+      if (alive) setLayouted(g);
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [viewGraph, layout, layoutRoot]);
+
+  // Dragged nodes are pinned: they keep their spot across re-layouts until
+  // unpinned (double-click) or the graph changes.
+  const [pinned, setPinned] = useState<Record<NodeId, XYPosition>>({});
+  useEffect(() => setPinned({}), [viewGraph]);
+  const positioned = useMemo(
+    () => ({
+      ...layouted,
+      nodes: layouted.nodes.map((n) =>
+        pinned[n.id] ? { ...n, position: pinned[n.id] } : n
+      ),
+    }),
+    [layouted, pinned]
   );
+  const pinnedIds = useMemo(() => new Set(Object.keys(pinned)), [pinned]);
 
-  const [iA, setIA] = useState(0);
-  const [iB, setIB] = useState(0);
-  const [locked, setLocked] = useState(false);
-  const [playing, setPlaying] = useState(false);
-  const [speedMs, setSpeedMs] = useState(600);
+  const flows = useRef(new Map<number, any>());
+  useEffect(() => {
+    // small timeout lets ReactFlow finish measuring container size
+    const id = setTimeout(() => {
+      flows.current.forEach((inst) =>
+        inst?.fitView({
+          padding: 0.1,
+          includeHiddenNodes: true,
+          duration: 300,
+        })
+      );
+    }, 0);
+    return () => clearTimeout(id);
+  }, [layouted, panels.length]);
 
-  const snapA = dijkSteps[Math.min(iA, dijkSteps.length - 1)] ?? dijkSteps[0];
-  const snapB =
-    paperSteps[Math.min(iB, paperSteps.length - 1)] ?? paperSteps[0];
+  const negative = useMemo(() => negativeEdges(runGraph).length, [runGraph]);
 
-  // ---------- PATH SETS ----------
-  const pathA = useMemo(
+  // Reference distances for the correctness oracle
+  const reference = useMemo(
+    () => referenceDistances(runGraph, runStart),
+    [runGraph, runStart]
+  );
+
+  const traces = useMemo(
     () =>
-      snapA?.dist?.[endId] !== Infinity
-        ? buildPathPairs(snapA.pred, endId, startId)
-        : { pairs: new Set<string>(), nodes: new Set<NodeId>() },
-    [snapA, startId, endId]
+      panels.map((p) =>
+        runAlgorithm(getAlgorithm(p.algo), runGraph, runStart, p.options)
+      ),
+    [panels, runGraph, runStart]
+  );
+
+  const [locked, setLocked] = useState(initial.locked);
+  const [align, setAlign] = useState<AlignMode>(initial.align);
+  const [orderFrom, setOrderFrom] = useState<"distance" | number>(
+    initial.orderFrom
   );
-  const pathB = useMemo(
+  const [playing, setPlaying] = useState(false);
+  const [speedMs, setSpeedMs] = useState(initial.speedMs);
+
+  const panelStates: PanelState[] = useMemo(
     () =>
-      snapB?.dist?.[endId] !== Infinity
-        ? buildPathPairs(snapB.pred, endId, startId)
-        : { pairs: new Set<string>(), nodes: new Set<NodeId>() },
-    [snapB, startId, endId]
+      panels.map((config, k) => {
+        const steps = traces[k];
+        const index = Math.max(
+          0,
+          Math.min(indices[config.key] ?? 0, steps.length - 1)
+        );
+        const snap = steps[index] ?? steps[0];
+        const last = steps[steps.length - 1];
+        const disabled =
+          !!getAlgorithm(config.algo).nonNegative && negative > 0;
+        return {
+          config,
+          entry: getAlgorithm(config.algo),
+          steps,
+          index,
+          snap,
+          // ---------- PATH SETS ----------
+          path:
+            snap?.dist?.[runEnd] !== Infinity
+              ? buildPathPairs(snap.pred, runEnd, runStart)
+              : { pairs: new Set<string>(), nodes: new Set<NodeId>() },
+          done: !!snap?.settled?.has?.(runEnd) || index >= steps.length - 1,
+          unreachable: (last?.dist?.[runEnd] ?? Infinity) === Infinity,
+          disabled,
+          report: disabled
+            ? undefined
+            : verifyFinal(runGraph, runStart, last, reference),
+        };
+      }),
+    [panels, traces, indices, runGraph, runStart, runEnd, negative, reference]
   );
+  const originOf = (ids: Set<NodeId>) =>
+    transform
+      ? new Set(Array.from(ids).map((x) => transform.origin[x] ?? x))
+      : ids;
+
+  const mismatchesToOrigin = (report: OracleReport): OracleReport => {
+    if (!transform) return report;
+    const mismatches: Record<NodeId, string[]> = {};
+    Object.entries(report.mismatches).forEach(([x, msgs]) => {
+      const v = transform.origin[x] ?? x;
+      mismatches[v] = [
+        ...(mismatches[v] ?? []),
+        ...msgs.map((m) => `${x}: ${m}`),
+      ];
+    });
+    return { ...report, mismatches };
+  };
+
+  const stepPanel = (key: number, delta: number, length: number) =>
+    setIndices((prev) => ({
+      ...prev,
+      [key]: Math.max(0, Math.min(length - 1, (prev[key] ?? 0) + delta)),
+    }));
 
   // ---------- unified auto-advance + proper stopping ----------
-  const endReachedA = !!snapA?.settled?.has?.(endId);
-  const endReachedB = !!snapB?.settled?.has?.(endId);
-  const doneA = endReachedA || iA >= dijkSteps.length - 1;
-  const doneB = endReachedB || iB >= paperSteps.length - 1;
+  const doneKey = panelStates.map((p) => (p.done ? 1 : 0)).join("");
+  const lengthsKey = panelStates.map((p) => p.steps.length).join(",");
 
   useEffect(() => {
-    if (!playing) return;
+    if (!playing || (locked && align !== "step")) return;
+    const done = doneKey.split("").map((d) => d === "1");
+    const lengths = lengthsKey.split(",").map(Number);
 
     const id = setInterval(() => {
+      const advance = (prev: Record<number, number>, k: number) =>
+        Math.min((prev[panels[k].key] ?? 0) + 1, lengths[k] - 1);
       if (locked) {
-        // advance both together as long as both can still move
-        if (!doneA && !doneB) {
-          setIA((i) => Math.min(i + 1, dijkSteps.length - 1));
-          setIB((i) => Math.min(i + 1, paperSteps.length - 1));
+        // advance all together as long as every panel can still move
+        if (done.every((d) => !d)) {
+          setIndices((prev) => {
+            const next = { ...prev };
+            panels.forEach((p, k) => (next[p.key] = advance(prev, k)));
+            return next;
+          });
         } else {
           setPlaying(false);
         }
       } else {
-        // advance each independently; freeze any finished side
-        setIA((i) => (doneA ? i : Math.min(i + 1, dijkSteps.length - 1)));
-        setIB((i) => (doneB ? i : Math.min(i + 1, paperSteps.length - 1)));
+        // advance each independently; freeze any finished panel
+        setIndices((prev) => {
+          const next = { ...prev };
+          panels.forEach((p, k) => {
+            if (!done[k]) next[p.key] = advance(prev, k);
+          });
+          return next;
+        });
 
-        // stop when both are done
-        if (doneA && doneB) setPlaying(false);
+        // stop when all are done
+        if (done.every((d) => d)) setPlaying(false);
       }
-    }, Math.max(120, speedMs));
+    }, Math.max(SPEED_MIN, speedMs));
 
     return () => clearInterval(id);
-  }, [
-    playing,
-    speedMs,
-    locked,
-    doneA,
-    doneB,
-    dijkSteps.length,
-    paperSteps.length,
-  ]);
+  }, [playing, speedMs, locked, align, doneKey, lengthsKey, panels]);
+
+  // Semantic lock-step: each tick moves every panel to where the next vertex
+  // (by count, or in the chosen order) is settled.
+  const alignOrder = useMemo(() => {
+    if (align !== "order") return undefined;
+    if (orderFrom !== "distance" && traces[orderFrom])
+      return settleOrder(traces[orderFrom]);
+    return Object.keys(reference.dist)
+      .filter((v) => reference.dist[v] < Infinity)
+      .sort((a, b) => reference.dist[a] - reference.dist[b]);
+  }, [align, orderFrom, traces, reference]);
+
+  useEffect(() => {
+    if (!playing || !locked || align === "step") return;
+    const next = alignNext(
+      panelStates.map((p) => p.steps),
+      panelStates.map((p) => p.index),
+      alignOrder
+    );
+    const id = setTimeout(() => {
+      if (!next) return setPlaying(false);
+      setIndices((prev) => {
+        const out = { ...prev };
+        panels.forEach((p, k) => (out[p.key] = next[k]));
+        return out;
+      });
+    }, Math.max(SPEED_MIN, speedMs));
+    return () => clearTimeout(id);
+  }, [playing, locked, align, alignOrder, panelStates, panels, speedMs]);
+
+  const orderDiff = useMemo(
+    () =>
+      locked && align !== "step"
+        ? orderDifference(
+            panelStates.map((p) => p.steps),
+            panelStates.map((p) => p.index)
+          )
+        : undefined,
+    [locked, align, panelStates]
+  );
+
+  // Breakpoints per panel; playback pauses on the step where one fires.
+  const [breakpoints, setBreakpoints] = useState<Record<number, Breakpoint[]>>(
+    {}
+  );
+  const [breakHit, setBreakHit] = useState<{
+    key: number;
+    bp: Breakpoint;
+  } | null>(null);
+  const lastIndices = useRef<Record<number, number>>({});
+  useEffect(() => {
+    const before = lastIndices.current;
+    lastIndices.current = Object.fromEntries(
+      panelStates.map((p) => [p.config.key, p.index])
+    );
+    if (!playing) return;
+    for (const p of panelStates) {
+      const from = before[p.config.key];
+      if (from === undefined) continue;
+      // aligned moves can skip steps; stop on the first one that fires
+      for (let j = from + 1; j <= p.index; j++) {
+        const bp = firstHit(
+          breakpoints[p.config.key] ?? [],
+          p.steps[j - 1],
+          p.steps[j]
+        );
+        if (!bp) continue;
+        setPlaying(false);
+        setBreakHit({ key: p.config.key, bp });
+        if (j < p.index) setIndices((prev) => ({ ...prev, [p.config.key]: j }));
+        return;
+      }
+    }
+  }, [panelStates, playing, breakpoints]);
 
   const reset = () => {
-    setIA(0);
-    setIB(0);
+    setIndices({});
     setPlaying(false);
+    setBreakHit(null);
   };
   const regenerate = () => {
     setSeed((s) => s + 37);
     setPlaying(false);
-    setIA(0);
-    setIB(0);
+    setIndices({});
     setCustomGraph(null);
+    setHistory({ past: [], future: [] });
+  };
+
+  // -------- Graph editor --------
+  // Every edit turns the graph into a custom one; the traces recompute from
+  // it like from an import. Edits happen on the original vertices only.
+  const [editing, setEditing] = useState(false);
+  const [history, setHistory] = useState<{ past: Graph[]; future: Graph[] }>({
+    past: [],
+    future: [],
+  });
+  const canEdit = editing && !playing && !transform;
+
+  function editGraph(edit: GraphEdit) {
+    if (!canEdit) return;
+    // start from what is on screen, so nothing jumps under the "keep" layout
+    const at: Record<NodeId, XYPosition> = {};
+    positioned.nodes.forEach((n) => (at[n.id] = n.position));
+    const current = {
+      ...baseGraph,
+      nodes: baseGraph.nodes.map((n) => ({
+        ...n,
+        position: at[n.id] ?? n.position,
+      })),
+    };
+    const next = edit(current);
+    if (next === current || next.nodes.length === 0) return;
+    setHistory((h) => ({ past: [...h.past, current], future: [] }));
+    setCustomGraph(next);
+    setLayout("keep");
+    setIndices({});
+  }
+
+  function undo() {
+    const prev = history.past[history.past.length - 1];
+    if (!canEdit || !prev) return;
+    setHistory((h) => ({
+      past: h.past.slice(0, -1),
+      future: [baseGraph, ...h.future],
+    }));
+    setCustomGraph(prev);
+    setIndices({});
+  }
+
+  function redo() {
+    const next = history.future[0];
+    if (!canEdit || !next) return;
+    setHistory((h) => ({
+      past: [...h.past, baseGraph],
+      future: h.future.slice(1),
+    }));
+    setCustomGraph(next);
+    setIndices({});
+  }
+
+  const updatePanel = (key: number, patch: Partial<PanelConfig>) => {
+    setPanels((ps) => ps.map((p) => (p.key === key ? { ...p, ...patch } : p)));
+    setIndices((prev) => ({ ...prev, [key]: 0 }));
+  };
+  const removePanel = (key: number) => {
+    setPanels((ps) => ps.filter((p) => p.key !== key));
+    flows.current.delete(key);
   };
+  const [addAlgo, setAddAlgo] = useState(ALGORITHMS[0].id);
+
+  // -------- Diff view --------
+  // Compared on the original vertices, like the internal-state tables.
+  const [diffPair, setDiffPair] = useState<[number, number]>([0, 1]);
+  const diffTraces = useMemo(
+    () =>
+      transform
+        ? traces.map((steps) => steps.map((s) => mapSnapshotBack(s, transform)))
+        : traces,
+    [traces, transform]
+  );
+  const [diffA, diffB] = diffPair.map((k) =>
+    Math.min(k, panelStates.length - 1)
+  );
+  const diff = useMemo(
+    () =>
+      diffRows(
+        baseGraph.nodes.map((n) => n.id),
+        { steps: diffTraces[diffA], index: panelStates[diffA].index },
+        { steps: diffTraces[diffB], index: panelStates[diffB].index }
+      ),
+    [baseGraph, diffTraces, diffA, diffB, panelStates]
+  );
+  const labels = useMemo(
+    () => Object.fromEntries(baseGraph.nodes.map((n) => [n.id, n.data.label])),
+    [baseGraph]
+  );
+
+  // -------- Path table --------
+  const [showTree, setShowTree] = useState(false);
+  const [pathChoice, setPathChoice] = useState(0);
+  const pathAt = Math.min(pathChoice, panelStates.length - 1);
+  const pathDisabled = panelStates[pathAt]?.disabled ?? true;
+  const paths = useMemo(() => {
+    const steps = traces[pathAt];
+    if (!steps || pathDisabled) return undefined;
+    const last = steps[steps.length - 1];
+    return pathTable(
+      baseGraph,
+      transform ? mapSnapshotBack(last, transform) : last,
+      startId
+    );
+  }, [traces, pathAt, pathDisabled, baseGraph, transform, startId]);
+
+  // -------- Graph import/export --------
+  const [exportFormat, setExportFormat] = useState<GraphFormat>("json");
+  const [pendingImport, setPendingImport] = useState<{
+    name: string;
+    graph: Graph;
+    issues: ValidationIssue[];
+  } | null>(null);
 
-  // -------- JSON import/export --------
   function onFileChange(e: React.ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0];
     if (!file) return;
     const reader = new FileReader();
     reader.onload = () => {
+      const text = String(reader.result);
+      const format = detectFormat(text, file.name);
+      const label = FORMATS.find((f) => f.format === format)!.label;
       try {
-        const obj = JSON.parse(String(reader.result));
-        if (!obj || !Array.isArray(obj.nodes) || !Array.isArray(obj.edges))
-          throw new Error("Invalid format");
-        const nodes: RFNode[] = obj.nodes.map((n: any, i: number) => ({
-          id: String(n.id ?? i),
-          position: { x: 0, y: 0 }, // ELK will reposition
-          data: {
-            label: String(n.data?.label ?? `v${i}`),
-            status: "unseen",
-            dist: n.data?.dist ?? (i === 0 ? 0 : Infinity),
-          },
-          sourcePosition: Position.Right,
-          targetPosition: Position.Left,
-        }));
-        const edges: RFEdge[] = obj.edges.map((e: any, j: number) => ({
-          id: String(e.id ?? `${e.source}-${e.target}-${j}`),
-          source: String(e.source),
-          target: String(e.target),
-          label: String(e.label ?? e.data?.w ?? 1),
-          data: { w: Number(e.data?.w ?? e.label ?? 1) },
-          markerEnd: { type: MarkerType.ArrowClosed, width: 16, height: 16 },
-        }));
-        setCustomGraph({ nodes, edges });
-        reset();
+        const graph = parseGraph(text, format);
+        const issues = validateGraph(graph);
+        // anything suspicious goes through the report first
+        if (issues.length === 0) loadGraph(graph);
+        else setPendingImport({ name: file.name, graph, issues });
       } catch (err) {
         alert(
-          "Failed to parse JSON. Expected { nodes: [], edges: [] } with positions."
+          `Failed to parse ${file.name} as ${label}: ${
+            err instanceof Error ? err.message : String(err)
+          }`
         );
       }
     };
     reader.readAsText(file);
+    e.target.value = ""; // allow re-importing the same file
+  }
+
+  function loadGraph(graph: Graph) {
+    setCustomGraph(graph);
+    setHistory({ past: [], future: [] });
+    if (hasPositions(graph)) setLayout("keep");
+    if (graph.startId !== undefined) setStartId(graph.startId);
+    setPendingImport(null);
+    reset();
+  }
+
+  function exportGraph() {
+    const { extension, mime } = FORMATS.find((f) => f.format === exportFormat)!;
+    const data = serializeGraph({ ...baseGraph, startId }, exportFormat);
+    const blob = new Blob([data], { type: mime });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `graph.${extension}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  // -------- Shareable link --------
+  // The hash follows the state; small custom graphs are embedded in it.
+  const embedded = useMemo(
+    () => (customGraph ? compressGraph(customGraph) : undefined),
+    [customGraph]
+  );
+  const embedTooLarge =
+    embedded !== undefined && embedded.length > MAX_EMBEDDED_GRAPH;
+  const viewState: UrlState = {
+    family,
+    params: genParams[family],
+    seed,
+    start: startId,
+    end: endId,
+    panels: panelStates.map((p) => ({
+      algo: p.config.algo,
+      index: p.index,
+      options: p.config.options,
+    })),
+    locked,
+    align,
+    orderFrom,
+    speedMs,
+    constantDegree,
+    layout,
+  };
+  const hash = encodeHash({
+    ...viewState,
+    graph: embedTooLarge ? undefined : embedded,
+  });
+  // Playback changes the hash on every step; write it once things settle.
+  useEffect(() => {
+    const id = setTimeout(
+      () => window.history.replaceState(null, "", hash),
+      250
+    );
+    return () => clearTimeout(id);
+  }, [hash]);
+
+  const [copied, setCopied] = useState(false);
+  function copyLink() {
+    const href = window.location.href.split("#")[0] + hash;
+    navigator.clipboard.writeText(href).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    });
+  }
+
+  // -------- Library --------
+  const [library, setLibrary] = useState(listEntries);
+  const [libraryError, setLibraryError] = useState<string>();
+  const applyLibrary = (update: LibraryUpdate) => {
+    setLibrary(update.entries);
+    setLibraryError(update.error);
+    return !update.error;
+  };
+
+  function saveToLibrary(kind: LibraryKind, name: string) {
+    const state =
+      kind === "graph"
+        ? { graph: embedded ?? compressGraph(baseGraph) }
+        : { ...viewState, graph: embedded };
+    applyLibrary(saveEntry(name, kind, state));
+  }
+
+  function loadFromLibrary(entry: LibraryEntry) {
+    try {
+      if (entry.kind === "graph") {
+        loadGraph(decompressGraph(entry.state.graph ?? ""));
+        return;
+      }
+      const s = resolveUrlState(entry.state);
+      setFamily(s.family);
+      setGenParams(s.genParams);
+      setSeed(s.seed);
+      setCustomGraph(s.customGraph);
+      setConstantDegree(s.constantDegree);
+      flows.current.clear();
+      setPanels(s.panels);
+      setIndices(s.indices);
+      if (s.start !== undefined) setStartId(s.start);
+      if (s.end !== undefined) setEndId(s.end);
+      setLayout(s.layout);
+      setLocked(s.locked);
+      setAlign(s.align);
+      setOrderFrom(s.orderFrom);
+      setSpeedMs(s.speedMs);
+      setPlaying(false);
+      setHistory({ past: [], future: [] });
+      setPendingImport(null);
+    } catch (err) {
+      alert(
+        `Failed to load "${entry.name}": ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    }
+  }
+
+  // Clearing keeps a copy in the library unless it is already saved there;
+  // when that copy cannot be written the graph stays.
+  function clearCustomGraph() {
+    if (
+      embedded &&
+      !library.some((e) => e.state.graph === embedded) &&
+      !applyLibrary(
+        saveEntry(`Cleared graph ${new Date().toLocaleString()}`, "graph", {
+          graph: embedded,
+        })
+      )
+    )
+      return;
+    setCustomGraph(null);
+    setHistory({ past: [], future: [] });
   }
 
-  function exportJSON() {
-    const data = JSON.stringify(baseGraph, null, 2);
-    const blob = new Blob([data], { type: "application/json" });
+  function exportLibraryFile() {
+    const blob = new Blob([exportLibrary()], { type: "application/json" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = "graph.json";
+    a.download = "sssp-gym-library.json";
     a.click();
     URL.revokeObjectURL(url);
   }
 
-  // ---------- Helpers to render STATE TABLES ----------
-  function fmtDist(x: number) {
-    return x === Infinity ? "∞" : x;
+  // -------- Practice --------
+  const [practice, setPractice] = useState<PracticeSession | null>(null);
+  const practiceAt = panelStates.findIndex(
+    (p) => p.config.key === practice?.key
+  );
+  const practicePanel = panelStates[practiceAt];
+  const question =
+    practicePanel && !practice?.feedback
+      ? nextQuestion(practicePanel.steps, practicePanel.index)
+      : undefined;
+  const seekPractice = (key: number, q?: Question) =>
+    q && setIndices((prev) => ({ ...prev, [key]: q.step - 1 }));
+
+  function startPractice(k: number) {
+    const p = panelStates[k];
+    setPlaying(false);
+    setPractice({ key: p.config.key, answers: [] });
+    seekPractice(p.config.key, nextQuestion(p.steps, 0));
   }
-  function statusFor(
-    nid: NodeId,
-    snap: StepSnapshot | PaperSnapshot,
-    extra?: { startId: NodeId; endId: NodeId; pathNodes?: Set<NodeId> }
-  ) {
-    const tags: string[] = [];
-    if (nid === extra?.startId) tags.push("start");
-    if (nid === extra?.endId) tags.push("end");
-    if (snap.current === nid) tags.push("current");
-    if ((snap as any).S?.has?.(nid)) tags.push("S");
-    if ((snap as any).P?.has?.(nid)) tags.push("P");
-    if ((snap as any).Uchunk?.has?.(nid)) tags.push("U");
-    if (snap.settled.has(nid)) tags.push("settled");
-    else if (snap.frontier.has(nid)) tags.push("frontier");
-    if (extra?.pathNodes?.has(nid)) tags.push("path");
-    return tags.join(" · ");
+
+  // Grades, then reveals the step the question was drawn from.
+  function answerPractice(given: string) {
+    if (!practice || !practicePanel || !question) return;
+    const answer = gradeAnswer(practicePanel.steps, question, given);
+    setPractice({
+      ...practice,
+      answers: [...practice.answers, answer],
+      feedback: answer,
+    });
+    setIndices((prev) => ({ ...prev, [practice.key]: question.step }));
   }
 
-  function InternalTable({
-    title,
-    snap,
-    isPaper,
-    pathNodes,
-  }: {
-    title: string;
-    snap: StepSnapshot | PaperSnapshot;
-    isPaper?: boolean;
-    pathNodes?: Set<NodeId>;
-  }) {
-    return (
-      <div style={styles.card}>
-        <div
-          style={{
-            display: "flex",
-            justifyContent: "space-between",
-            alignItems: "baseline",
-          }}
-        >
-          <div style={{ fontWeight: 600, fontSize: 14 }}>{title}</div>
-          <div style={styles.small}>
-            Step {snap.step}: {snap.description}
-          </div>
-        </div>
-        <div style={{ marginTop: 8, overflowX: "auto" }}>
-          <table style={styles.table}>
-            <thead>
-              <tr>
-                <th style={styles.th}>Node</th>
-                <th style={styles.th}>dist</th>
-                <th style={styles.th}>pred</th>
-                <th style={styles.th}>status / sets</th>
-              </tr>
-            </thead>
-            <tbody>
-              {layouted.nodes.map((n) => (
-                <tr key={`${title}-row-${n.id}`}>
-                  <td style={styles.td}>
-                    <code>{n.data.label}</code>
-                  </td>
-                  <td style={styles.td}>
-                    <code>{fmtDist(snap.dist[n.id])}</code>
-                  </td>
-                  <td style={styles.td}>
-                    <code>{snap.pred[n.id] ?? "—"}</code>
-                  </td>
-                  <td style={styles.td}>
-                    {statusFor(n.id, snap, { startId, endId, pathNodes })}
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-        <div style={{ marginTop: 8, fontSize: 12, color: "#334155" }}>
-          <div>
-            <b>Settled:</b> {[...Array.from(snap.settled)].join(", ") || "—"}
-          </div>
-          <div>
-            <b>Frontier:</b> {[...Array.from(snap.frontier)].join(", ") || "—"}
-          </div>
-          {isPaper && (
-            <div
-              style={{
-                display: "grid",
-                gridTemplateColumns: "repeat(3, minmax(0,1fr))",
-                gap: 8,
-              }}
-            >
-              <div>
-                <b>S:</b>{" "}
-                {[...Array.from((snap as PaperSnapshot).S)].join(", ") || "—"}
-              </div>
-              <div>
-                <b>P:</b>{" "}
-                {Array.from((snap as PaperSnapshot).P ?? []).join(", ") || "—"}
-              </div>
-              <div>
-                <b>U:</b>{" "}
-                {Array.from((snap as PaperSnapshot).Uchunk ?? []).join(", ") ||
-                  "—"}
-              </div>
-              <div>
-                <b>Level:</b> {(snap as PaperSnapshot).level}
-              </div>
-              <div>
-                <b>B:</b>{" "}
-                {(snap as PaperSnapshot).B === Infinity
-                  ? "∞"
-                  : (snap as PaperSnapshot).B}
-              </div>
-              <div>
-                <b>B′:</b> {(snap as PaperSnapshot).Bp ?? "—"}
-              </div>
-            </div>
-          )}
-        </div>
-      </div>
+  function nextPractice() {
+    if (!practice || !practicePanel) return;
+    setPractice({ ...practice, feedback: undefined });
+    seekPractice(
+      practice.key,
+      nextQuestion(practicePanel.steps, practicePanel.index)
     );
   }
 
-  // ---------- node/edge styling ----------
-  const circleBase: React.CSSProperties = {
-    width: 44,
-    height: 44,
-    borderRadius: "50%",
-    display: "flex",
-    alignItems: "center",
-    justifyContent: "center",
-    border: "2px solid #cbd5e1",
-    background: "#ffffff",
-    boxShadow: "0 1px 0 rgba(0,0,0,0.04)",
-  };
-
-  function styleNodesFromSnapshot(
-    baseNodes: RFNode[],
-    snap: StepSnapshot | PaperSnapshot,
-    extra?: {
-      pivots?: Set<NodeId>;
-      U?: Set<NodeId>;
-      startId?: NodeId;
-      endId?: NodeId;
-      pathNodes?: Set<NodeId>;
-    }
-  ) {
-    const activeU = snap.relaxing?.u;
-    const activeV = snap.relaxing?.v;
-
-    return baseNodes.map((n) => {
-      const status: RFNodeData["status"] =
-        snap.current === n.id
-          ? "current"
-          : extra?.pivots?.has(n.id)
-          ? "pivot"
-          : extra?.U?.has(n.id)
-          ? "u-set"
-          : snap.settled.has(n.id)
-          ? "settled"
-          : snap.frontier.has(n.id)
-          ? "frontier"
-          : "unseen";
-
-      let style: React.CSSProperties = { ...circleBase };
-
-      // Active consideration (light blue)
-      if (n.id === activeU || n.id === activeV || n.id === snap.current) {
-        style = {
-          ...style,
-          background: "#dbeafe",
-          border: "2px solid #60a5fa",
-        };
-      }
-
-      // Shortest path (green outline)
-      if (extra?.pathNodes?.has(n.id)) {
-        style = { ...style, border: "2px solid #10b981" };
-      }
-
-      // Start / End overrides
-      if (n.id === extra?.startId) {
-        style = {
-          ...style,
-          background: "#fee2e2",
-          border: "2px solid #ef4444",
-        };
-      }
-      if (n.id === extra?.endId) {
-        style = {
-          ...style,
-          background: "#dcfce7",
-          border: "2px solid #10b981",
-        };
-      }
-
-      return {
-        ...n,
-        data: { ...n.data, status, dist: snap.dist[n.id] },
-        style,
-      };
-    });
+  function exportPractice() {
+    if (!practice || !practicePanel) return;
+    const text = exportSession(
+      {
+        algorithm: practicePanel.entry.name,
+        start: runStart,
+        nodes: runGraph.nodes.length,
+        edges: runGraph.edges.length,
+      },
+      practice.answers
+    );
+    const blob = new Blob([text], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "sssp-gym-practice.json";
+    a.click();
+    URL.revokeObjectURL(url);
   }
 
-  function styleEdgesFromSnapshot(
-    baseEdges: RFEdge[],
-    snap: StepSnapshot | PaperSnapshot,
-    pathPairs?: Set<string>
-  ) {
-    const { relaxing } = snap;
-    return baseEdges.map((e) => {
-      const isActive =
-        relaxing && e.source === relaxing.u && e.target === relaxing.v;
-      const onPath = pathPairs?.has?.(`${e.source}|${e.target}`);
-      let style: React.CSSProperties = { strokeWidth: 1.5, opacity: 0.9 };
-      if (onPath) style = { ...style, stroke: "#10b981", strokeWidth: 3 };
-      if (isActive) style = { ...style, stroke: "#60a5fa", strokeWidth: 3 };
-      return { ...e, animated: !!isActive, style };
-    });
+  function onLibraryFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        applyLibrary(importLibrary(String(reader.result)));
+      } catch (err) {
+        alert(
+          `Failed to import ${file.name}: ${
+            err instanceof Error ? err.message : String(err)
+          }`
+        );
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = "";
   }
 
-  const leftNodes = useMemo(
-    () =>
-      styleNodesFromSnapshot(layouted.nodes, snapA, {
-        startId,
-        endId,
-        pathNodes: pathA.nodes,
-      }),
-
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    [layouted.nodes, snapA, startId, endId, pathA.nodes]
-  );
-  const leftEdges = useMemo(
-    () => styleEdgesFromSnapshot(layouted.edges, snapA, pathA.pairs),
-    [layouted.edges, snapA, pathA.pairs]
-  );
-  const rightNodes = useMemo(
-    () =>
-      styleNodesFromSnapshot(layouted.nodes, snapB, {
-        pivots: (snapB as PaperSnapshot).P,
-        U: (snapB as PaperSnapshot).Uchunk,
-        startId,
-        endId,
-        pathNodes: pathB.nodes,
-      }),
-
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    [layouted.nodes, snapB, startId, endId, pathB.nodes]
-  );
-  const rightEdges = useMemo(
-    () => styleEdgesFromSnapshot(layouted.edges, snapB, pathB.pairs),
-    [layouted.edges, snapB, pathB.pairs]
-  );
-
-  // ---------- Unreachable flags ----------
-  const unreachableA = useMemo(() => {
-    const last = dijkSteps[dijkSteps.length - 1];
-    return (last?.dist?.[endId] ?? Infinity) === Infinity;
-  }, [dijkSteps, endId]);
-  const unreachableB = useMemo(() => {
-    const last = paperSteps[paperSteps.length - 1];
-    return (last?.dist?.[endId] ?? Infinity) === Infinity;
-  }, [paperSteps, endId]);
-
   // ------------- UI -------------
   return (
     <div style={styles.page}>
@@ -966,9 +2571,11 @@ export default function App() {
         <p style={styles.p}>
           Active relaxations are{" "}
           <span style={{ color: "#2563eb" }}>light blue</span>. Shortest path is{" "}
-          <span style={{ color: "#10b981" }}>green</span>. Start is{" "}
-          <span style={{ color: "#ef4444" }}>red</span>; End is{" "}
-          <span style={{ color: "#10b981" }}>green</span>.
+          <span style={{ color: "#10b981" }}>green</span>. Pivots and the
+          FindPivots forest are <span style={{ color: "#a855f7" }}>purple</span>
+          . Start is <span style={{ color: "#ef4444" }}>red</span>; End is{" "}
+          <span style={{ color: "#10b981" }}>green</span>. Bucket-queue
+          algorithms fill each queued node with its bucket's color.
         </p>
 
         <div style={styles.grid3 as React.CSSProperties}>
@@ -983,31 +2590,55 @@ export default function App() {
                 marginTop: 8,
               }}
             >
-              <label style={styles.labelCol as React.CSSProperties}>
-                <span>Nodes: {n}</span>
-                <input
-                  type="range"
-                  min={5}
-                  max={18}
-                  value={n}
-                  onChange={(e) =>
-                    setN(parseInt((e.target as HTMLInputElement).value))
-                  }
-                />
-              </label>
-              <label style={styles.labelCol as React.CSSProperties}>
-                <span>Density: {density.toFixed(2)}</span>
-                <input
-                  type="range"
-                  min={0.15}
-                  max={0.6}
-                  step={0.01}
-                  value={density}
-                  onChange={(e) =>
-                    setDensity(parseFloat((e.target as HTMLInputElement).value))
-                  }
-                />
+              <label
+                style={{
+                  ...(styles.labelCol as React.CSSProperties),
+                  gridColumn: "1 / span 2",
+                }}
+              >
+                <span>Family</span>
+                <select
+                  value={family}
+                  onChange={(e) => {
+                    setFamily(e.target.value);
+                    setCustomGraph(null);
+                    setHistory({ past: [], future: [] });
+                    reset();
+                  }}
+                >
+                  {GENERATORS.map((g) => (
+                    <option key={`family-${g.id}`} value={g.id}>
+                      {g.label}
+                    </option>
+                  ))}
+                </select>
               </label>
+              {getGenerator(family).params.map((p) => (
+                <label
+                  key={`param-${family}-${p.key}`}
+                  style={styles.labelCol as React.CSSProperties}
+                >
+                  <span>
+                    {p.label}: {genParams[family][p.key]}
+                  </span>
+                  <input
+                    type="range"
+                    min={p.min}
+                    max={p.max}
+                    step={p.step}
+                    value={genParams[family][p.key]}
+                    onChange={(e) => {
+                      const value = parseFloat(
+                        (e.target as HTMLInputElement).value
+                      );
+                      setGenParams((prev) => ({
+                        ...prev,
+                        [family]: { ...prev[family], [p.key]: value },
+                      }));
+                    }}
+                  />
+                </label>
+              ))}
 
               <label style={styles.labelCol as React.CSSProperties}>
                 <span>Start node</span>
@@ -1015,11 +2646,10 @@ export default function App() {
                   value={startId}
                   onChange={(e) => {
                     setStartId(e.target.value);
-                    setIA(0);
-                    setIB(0);
+                    setIndices({});
                   }}
                 >
-                  {layouted.nodes.map((n) => (
+                  {baseGraph.nodes.map((n) => (
                     <option key={`start-${n.id}`} value={n.id}>
                       {n.data.label}
                     </option>
@@ -1032,7 +2662,7 @@ export default function App() {
                   value={endId}
                   onChange={(e) => setEndId(e.target.value)}
                 >
-                  {layouted.nodes.map((n) => (
+                  {baseGraph.nodes.map((n) => (
                     <option key={`end-${n.id}`} value={n.id}>
                       {n.data.label}
                     </option>
@@ -1040,6 +2670,78 @@ export default function App() {
                 </select>
               </label>
 
+              <label style={styles.checkboxRow as React.CSSProperties}>
+                <input
+                  type="checkbox"
+                  checked={constantDegree}
+                  onChange={(e) => {
+                    setConstantDegree(e.target.checked);
+                    reset();
+                  }}
+                />{" "}
+                Constant-degree transform
+              </label>
+
+              <label style={styles.labelCol as React.CSSProperties}>
+                <span>Layout (shared by all panels)</span>
+                <select
+                  value={layout}
+                  onChange={(e) => setLayout(e.target.value as LayoutKind)}
+                >
+                  {LAYOUTS.map((l) => (
+                    <option key={`layout-${l.kind}`} value={l.kind}>
+                      {l.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <div style={styles.small}>
+                Drag a node to pin it; double-click to unpin.{" "}
+                {pinnedIds.size > 0 && (
+                  <button style={styles.button} onClick={() => setPinned({})}>
+                    Unpin all ({pinnedIds.size})
+                  </button>
+                )}
+              </div>
+
+              <label style={styles.checkboxRow as React.CSSProperties}>
+                <input
+                  type="checkbox"
+                  checked={editing}
+                  onChange={(e) => setEditing(e.target.checked)}
+                />{" "}
+                Edit graph
+              </label>
+              <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                <button
+                  style={styles.button}
+                  disabled={!canEdit || history.past.length === 0}
+                  onClick={undo}
+                >
+                  Undo
+                </button>
+                <button
+                  style={styles.button}
+                  disabled={!canEdit || history.future.length === 0}
+                  onClick={redo}
+                >
+                  Redo
+                </button>
+              </div>
+              {editing && !canEdit && (
+                <div
+                  style={{
+                    ...styles.small,
+                    color: "#dc2626",
+                    gridColumn: "1 / span 2",
+                  }}
+                >
+                  {playing
+                    ? "Pause playback to edit the graph."
+                    : "Turn off the constant-degree transform to edit the graph."}
+                </div>
+              )}
+
               <button style={styles.buttonPrimary} onClick={regenerate}>
                 Generate New Graph
               </button>
@@ -1065,12 +2767,22 @@ export default function App() {
                   gap: 8,
                 }}
               >
-                <button style={styles.button} onClick={reset}>
+                <button
+                  style={styles.button}
+                  disabled={!!practicePanel}
+                  title={practicePanel ? "Stop practice to reset" : undefined}
+                  onClick={reset}
+                >
                   Reset
                 </button>
                 <button
                   style={styles.buttonPrimary}
-                  onClick={() => setPlaying((p) => !p)}
+                  disabled={!!practicePanel}
+                  title={practicePanel ? "Stop practice to play" : undefined}
+                  onClick={() => {
+                    setPlaying((p) => !p);
+                    setBreakHit(null);
+                  }}
                 >
                   {playing ? "Pause" : "Play"}
                 </button>
@@ -1082,7 +2794,64 @@ export default function App() {
                   />{" "}
                   Lock steps (sync)
                 </label>
+                <label style={styles.checkboxRow as React.CSSProperties}>
+                  <input
+                    type="checkbox"
+                    checked={showTree}
+                    onChange={(e) => setShowTree(e.target.checked)}
+                  />{" "}
+                  Shortest-path tree
+                </label>
               </div>
+              <label
+                style={{
+                  gridColumn: "1 / span 2",
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 6,
+                }}
+              >
+                <span>Align by</span>
+                <select
+                  disabled={!locked}
+                  value={align === "order" ? `order:${orderFrom}` : align}
+                  onChange={(e) => {
+                    const [mode, from] = e.target.value.split(":");
+                    setAlign(mode as AlignMode);
+                    if (from !== undefined)
+                      setOrderFrom(from === "distance" ? from : Number(from));
+                  }}
+                >
+                  {ALIGN_MODES.filter((a) => a.mode !== "order").map((a) => (
+                    <option key={`align-${a.mode}`} value={a.mode}>
+                      {a.label}
+                    </option>
+                  ))}
+                  <option value="order:distance">
+                    Settle order: by distance
+                  </option>
+                  {panelStates.map((p, k) => (
+                    <option key={`order-${p.config.key}`} value={`order:${k}`}>
+                      Settle order: {p.entry.name} #{k + 1}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {locked && align !== "step" && (
+                <div style={{ ...styles.small, gridColumn: "1 / span 2" }}>
+                  Settled:{" "}
+                  {panelStates
+                    .map((p) => `${p.entry.name} ${p.snap.settled.size}`)
+                    .join(" · ")}
+                  {orderDiff && (
+                    <div style={{ color: "#b45309" }}>
+                      ⚠ Settle order differs at position{" "}
+                      {orderDiff.position + 1}:{" "}
+                      {orderDiff.vertices.join(" vs ")}
+                    </div>
+                  )}
+                </div>
+              )}
               <label
                 style={{
                   gridColumn: "1 / span 2",
@@ -1094,8 +2863,8 @@ export default function App() {
                 <span>Speed: {speedMs} ms/step</span>
                 <input
                   type="range"
-                  min={120}
-                  max={1500}
+                  min={SPEED_MIN}
+                  max={SPEED_MAX}
                   step={20}
                   value={speedMs}
                   onChange={(e) =>
@@ -1105,35 +2874,22 @@ export default function App() {
               </label>
 
               <div style={{ display: "flex", gap: 6 }}>
-                <button
-                  style={styles.button}
-                  onClick={() => setIB((i) => Math.max(0, i - 1))}
-                >
-                  ◀︎ BMSPP
-                </button>
-                <button
-                  style={styles.button}
-                  onClick={() =>
-                    setIB((i) => Math.min(paperSteps.length - 1, i + 1))
-                  }
-                >
-                  BMSPP ▶︎
-                </button>
-              </div>
-              <div style={{ display: "flex", gap: 6 }}>
-                <button
-                  style={styles.button}
-                  onClick={() => setIA((i) => Math.max(0, i - 1))}
+                <select
+                  value={addAlgo}
+                  onChange={(e) => setAddAlgo(e.target.value)}
                 >
-                  ◀︎ Dijkstra
-                </button>
+                  {ALGORITHMS.map((a) => (
+                    <option key={`add-${a.id}`} value={a.id}>
+                      {a.name}
+                    </option>
+                  ))}
+                </select>
                 <button
                   style={styles.button}
-                  onClick={() =>
-                    setIA((i) => Math.min(dijkSteps.length - 1, i + 1))
-                  }
+                  disabled={panels.length >= MAX_PANELS}
+                  onClick={() => setPanels((ps) => [...ps, newPanel(addAlgo)])}
                 >
-                  Dijkstra ▶︎
+                  Add panel
                 </button>
               </div>
             </div>
@@ -1141,100 +2897,211 @@ export default function App() {
 
           {/* Import / Export */}
           <div style={styles.card}>
-            <div style={{ fontWeight: 600, fontSize: 14 }}>Graph JSON</div>
+            <div style={{ fontWeight: 600, fontSize: 14 }}>Graph File</div>
             <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
               <input
                 type="file"
-                accept="application/json,.json"
+                accept=".json,.gr,.dimacs,.csv,.tsv,.graphml,.xml"
                 onChange={onFileChange}
               />
               <div style={styles.small}>
-                Expected:{" "}
-                {`{ nodes:[{id, position:{x,y}, data:{label}}], edges:[{source,target,label|data:{w}}] }`}
+                Format is detected from the extension or contents: JSON{" "}
+                {`{ nodes:[{id, data:{label}}], edges:[{source,target,label|data:{w}}] }`}
+                , DIMACS <code>.gr</code>, CSV <code>source,target,weight</code>{" "}
+                or GraphML.
               </div>
+              {negative > 0 && (
+                <div style={{ ...styles.small, color: "#dc2626" }}>
+                  ⚠ {negative} negative edge weight{negative === 1 ? "" : "s"}:
+                  only Bellman–Ford runs on this graph.
+                </div>
+              )}
               <div
                 style={{ display: "flex", gap: 8, flexWrap: "wrap" as const }}
               >
-                <button
-                  style={styles.button}
-                  onClick={() => setCustomGraph(null)}
-                >
+                <button style={styles.button} onClick={clearCustomGraph}>
                   Clear custom graph
                 </button>
-                <button style={styles.button} onClick={exportJSON}>
+                <select
+                  value={exportFormat}
+                  onChange={(e) =>
+                    setExportFormat(e.target.value as GraphFormat)
+                  }
+                >
+                  {FORMATS.map((f) => (
+                    <option key={`format-${f.format}`} value={f.format}>
+                      {f.label}
+                    </option>
+                  ))}
+                </select>
+                <button style={styles.button} onClick={exportGraph}>
                   Export current graph
                 </button>
+                <button style={styles.button} onClick={copyLink}>
+                  {copied ? "Link copied" : "Copy link"}
+                </button>
               </div>
+              {embedTooLarge && (
+                <div style={styles.small}>
+                  The custom graph is too large for a link; the link shows the
+                  generated graph instead. Export it as a file to share it.
+                </div>
+              )}
             </div>
           </div>
         </div>
 
+        <LibraryCard
+          entries={library}
+          error={libraryError}
+          onSave={saveToLibrary}
+          onLoad={loadFromLibrary}
+          onRename={(id, name) => applyLibrary(renameEntry(id, name))}
+          onDuplicate={(id) => applyLibrary(duplicateEntry(id))}
+          onDelete={(id) => applyLibrary(deleteEntry(id))}
+          onExport={exportLibraryFile}
+          onImport={onLibraryFileChange}
+        />
+
+        {pendingImport && (
+          <ImportReport
+            {...pendingImport}
+            onFix={() => loadGraph(autoFix(pendingImport.graph))}
+            onLoad={() => loadGraph(pendingImport.graph)}
+            onCancel={() => setPendingImport(null)}
+          />
+        )}
+
+        <PracticeCard
+          names={panelStates.map((p, k) => `${p.entry.name} #${k + 1}`)}
+          active={practicePanel ? practiceAt : undefined}
+          question={question}
+          session={practice ?? undefined}
+          onStart={startPractice}
+          onStop={() => setPractice(null)}
+          onAnswer={answerPractice}
+          onNext={nextPractice}
+          onExport={exportPractice}
+        />
+
         {/* Panels */}
         <div style={styles.twoCols as React.CSSProperties}>
-          <div style={styles.card}>
-            <div
-              style={{
-                display: "flex",
-                justifyContent: "space-between",
-                alignItems: "center",
-              }}
-            >
-              <div style={{ fontWeight: 600, fontSize: 14 }}>BMSPP</div>
-              <div style={styles.small}>
-                ≈ O(m · log^(2 / 3) · n)
-                {unreachableB ? " • end unreachable (∞)" : ""}
-              </div>
-            </div>
-            <div style={{ height: 420, width: "100%" }}>
-              <ReactFlow
-                nodes={rightNodes as any}
-                edges={rightEdges as any}
-                fitView
-                defaultEdgeOptions={{ type: "straight" }}
-                onInit={(inst) => {
-                  setRfRight(inst);
-                  // optional initial fit for first mount
-                  inst.fitView({ padding: 0.1, includeHiddenNodes: true });
-                }}
-              >
-                <Background />
-                <Controls />
-              </ReactFlow>
-            </div>
-          </div>
-          <div style={styles.card}>
-            <div
-              style={{
-                display: "flex",
-                justifyContent: "space-between",
-                alignItems: "center",
-              }}
-            >
-              <div style={{ fontWeight: 600, fontSize: 14 }}>Dijkstra</div>
-              <div style={styles.small}>
-                O(m + n log n)
-                {unreachableA ? " • end unreachable (∞)" : ""}
-              </div>
-            </div>
-            <div style={{ height: 420, width: "100%" }}>
-              <ReactFlow
-                nodes={leftNodes as any}
-                edges={leftEdges as any}
-                fitView
-                defaultEdgeOptions={{ type: "straight" }}
-                onInit={(inst) => {
-                  setRfLeft(inst);
-                  // optional initial fit for first mount
-                  inst.fitView({ padding: 0.1, includeHiddenNodes: true });
-                }}
-              >
-                <Background />
-                <Controls />
-              </ReactFlow>
-            </div>
-          </div>
+          {panelStates.map((p) => (
+            <AlgorithmPanel
+              key={`panel-${p.config.key}`}
+              panel={p}
+              layouted={positioned}
+              startId={runStart}
+              endId={runEnd}
+              canRemove={panels.length > 1}
+              onAlgorithm={(algo) =>
+                updatePanel(p.config.key, {
+                  algo,
+                  options: defaultOptions(getAlgorithm(algo)),
+                })
+              }
+              onOptions={(options) => updatePanel(p.config.key, { options })}
+              onRemove={() => removePanel(p.config.key)}
+              onStep={(delta) => stepPanel(p.config.key, delta, p.steps.length)}
+              onSeek={(index) =>
+                setIndices((prev) => ({ ...prev, [p.config.key]: index }))
+              }
+              onInit={(inst) => flows.current.set(p.config.key, inst)}
+              pinned={pinnedIds}
+              onMove={(id, position) =>
+                setPinned((prev) => ({ ...prev, [id]: position }))
+              }
+              onUnpin={(id) => setPinned(({ [id]: _, ...rest }) => rest)}
+              onEdit={canEdit ? editGraph : undefined}
+              breakpoints={breakpoints[p.config.key] ?? []}
+              breakHit={
+                breakHit?.key === p.config.key ? breakHit.bp : undefined
+              }
+              onAddBreakpoint={(bp) =>
+                setBreakpoints((prev) => ({
+                  ...prev,
+                  [p.config.key]: [...(prev[p.config.key] ?? []), bp],
+                }))
+              }
+              onRemoveBreakpoint={(i) =>
+                setBreakpoints((prev) => ({
+                  ...prev,
+                  [p.config.key]: (prev[p.config.key] ?? []).filter(
+                    (_, k) => k !== i
+                  ),
+                }))
+              }
+              onPick={
+                question?.kind === "settle" && p.config.key === practice?.key
+                  ? answerPractice
+                  : undefined
+              }
+              frozen={!!practicePanel}
+              showTree={showTree}
+            />
+          ))}
         </div>
 
+        <MetricsCard
+          traces={traces}
+          names={panelStates.map((p, k) => `${p.entry.name} #${k + 1}`)}
+          indices={panelStates.map((p) => p.index)}
+        />
+
+        {panelStates.length > 0 && !practicePanel && (
+          <PathTableCard
+            names={panelStates.map((p, k) => `${p.entry.name} #${k + 1}`)}
+            choice={pathAt}
+            onChoice={setPathChoice}
+            table={paths}
+            labels={labels}
+            endId={endId}
+            onEnd={setEndId}
+          />
+        )}
+
+        {panelStates.length > 1 && (
+          <DiffView
+            names={panelStates.map((p, k) => `${p.entry.name} #${k + 1}`)}
+            pair={[diffA, diffB]}
+            onPair={setDiffPair}
+            rows={diff}
+            labels={labels}
+          />
+        )}
+
+        {/* cards may list later steps (the recursion tree does) */}
+        {!practicePanel &&
+          panelStates.map(
+            (p) =>
+              p.entry.card && (
+                <React.Fragment key={`card-${p.config.key}`}>
+                  {p.entry.card(p.snap, {
+                    steps: p.steps,
+                    index: p.index,
+                    onSeek: (index) =>
+                      setIndices((prev) => ({
+                        ...prev,
+                        [p.config.key]: index,
+                      })),
+                  })}
+                </React.Fragment>
+              )
+          )}
+
+        {panelStates.map(
+          (p, k) =>
+            p.entry.pseudocode &&
+            p.snap.line && (
+              <PseudocodeCard
+                key={`code-${p.config.key}`}
+                title={`${p.entry.name} #${k + 1}`}
+                code={p.entry.pseudocode}
+                snap={p.snap}
+              />
+            )
+        )}
+
         {/* INTERNAL STATE TABLES */}
         <div
           style={{
@@ -1244,17 +3111,19 @@ export default function App() {
             marginTop: 16,
           }}
         >
-          <InternalTable
-            title="BMSPP — Internal State"
-            snap={snapB}
-            isPaper
-            pathNodes={pathB.nodes}
-          />
-          <InternalTable
-            title="Dijkstra — Internal State"
-            snap={snapA}
-            pathNodes={pathA.nodes}
-          />
+          {panelStates.map((p) => (
+            <InternalTable
+              key={`table-${p.config.key}`}
+              title={`${p.entry.name} — Internal State`}
+              entry={p.entry}
+              snap={transform ? mapSnapshotBack(p.snap, transform) : p.snap}
+              rows={baseGraph.nodes}
+              startId={startId}
+              endId={endId}
+              pathNodes={originOf(p.path.nodes)}
+              report={p.report && mismatchesToOrigin(p.report)}
+            />
+          ))}
         </div>
       </div>
     </div>
@@ -0,0 +1,630 @@
+import React, { useMemo, useState } from "react";
+import { Block } from "./blockList";
+import { runBellmanFordSteps } from "./bellmanFord";
+import { runPaperSteps } from "./bmssp";
+import {
+  DELTA_MAX,
+  DELTA_MIN,
+  runDeltaSteppingSteps,
+  runDialSteps,
+} from "./buckets";
+import { runDijkstraSteps } from "./dijkstra";
+import {
+  BellmanFordSnapshot,
+  BucketSnapshot,
+  Graph,
+  NodeId,
+  PaperSnapshot,
+  StepSnapshot,
+  fmtDist,
+  negativeEdges,
+} from "./graph";
+import { QUEUE_KINDS, QueueKind } from "./priorityQueues";
+import { BMSSP_CODE, DIJKSTRA_CODE, Procedure } from "./pseudocode";
+import { CallNode, callState, callTree } from "./recursionTree";
+import { styles } from "./styles";
+
+// ---------------- Algorithm registry ----------------
+// Every panel picks one entry from ALGORITHMS. An entry runs its engine into a
+// snapshot trace and describes how the generic panel and internal table
+// should decorate that trace; a new SSSP variant only needs a new entry.
+
+export type AlgorithmOptions = Record<string, string | number>;
+
+export type AlgorithmSetting =
+  | {
+      key: string;
+      label: string;
+      kind: "select";
+      choices: { value: string; label: string }[];
+      default: string;
+    }
+  | {
+      key: string;
+      label: string;
+      kind: "number";
+      min: number;
+      max: number;
+      step: number;
+      default: number;
+    };
+
+export interface AlgorithmEntry<S extends StepSnapshot = StepSnapshot> {
+  id: string;
+  name: string;
+  complexity: (options: AlgorithmOptions) => string;
+  settings?: AlgorithmSetting[];
+  // correct only for w ≥ 0; not run on graphs with negative edges
+  nonNegative?: boolean;
+  run: (graph: Graph, src: NodeId, options: AlgorithmOptions) => S[];
+  // extra tags for the "status / sets" column
+  nodeTags?: (nid: NodeId, snap: S) => string[];
+  // extra internal-table columns, after the status column
+  columns?: {
+    header: string;
+    cell: (nid: NodeId, snap: S) => React.ReactNode;
+  }[];
+  // one-line summary under the panel header
+  summary?: (snap: S) => string | undefined;
+  // node and edge decorations in the ReactFlow panel
+  highlight?: (snap: S) => {
+    pivots?: Set<NodeId>;
+    U?: Set<NodeId>;
+    edges?: Set<string>; // `${source}|${target}` pairs
+    edgeColor?: string; // stroke for `edges`, purple by default
+    fills?: Record<NodeId, string>; // node background colors
+  };
+  // algorithm-specific state under the internal table
+  details?: (snap: S) => React.ReactNode;
+  // listing whose line ids the engine records in `snap.line`
+  pseudocode?: Procedure[];
+  // an extra card under the panels; `trace` lets it seek its panel
+  card?: (snap: S, trace: PanelTrace<S>) => React.ReactNode;
+}
+
+export type PanelTrace<S extends StepSnapshot = StepSnapshot> = {
+  steps: S[];
+  index: number;
+  onSeek: (index: number) => void;
+};
+
+// Checks an entry against its own snapshot type, then wraps every hook so the
+// registry can hold entries of different types side by side. The hooks only
+// ever see snapshots from the entry's own run, so `own` and `ownSteps` are the
+// only places a snapshot is narrowed back to S.
+function defineAlgorithm<S extends StepSnapshot>(
+  entry: AlgorithmEntry<S>
+): AlgorithmEntry {
+  const own = (snap: StepSnapshot) => snap as S;
+  const ownSteps = (steps: StepSnapshot[]) => steps as S[]; // keeps identity
+  const { nodeTags, columns, summary, highlight, details, card } = entry;
+  return {
+    id: entry.id,
+    name: entry.name,
+    complexity: entry.complexity,
+    settings: entry.settings,
+    nonNegative: entry.nonNegative,
+    run: entry.run,
+    nodeTags: nodeTags && ((nid, snap) => nodeTags(nid, own(snap))),
+    columns: columns?.map((c) => ({
+      header: c.header,
+      cell: (nid, snap) => c.cell(nid, own(snap)),
+    })),
+    summary: summary && ((snap) => summary(own(snap))),
+    highlight: highlight && ((snap) => highlight(own(snap))),
+    details: details && ((snap) => details(own(snap))),
+    pseudocode: entry.pseudocode,
+    card:
+      card &&
+      ((snap, trace) =>
+        card(own(snap), { ...trace, steps: ownSteps(trace.steps) })),
+  };
+}
+
+function fmtSet(s?: Iterable<NodeId>) {
+  return Array.from(s ?? []).join(", ") || "—";
+}
+
+function fmtBound(x: number | undefined) {
+  return x === undefined ? "—" : x === Infinity ? "∞" : String(x);
+}
+
+// ---------------- BMSSP ----------------
+function BmsspDetails({ snap }: { snap: PaperSnapshot }) {
+  return (
+    <>
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(3, minmax(0,1fr))",
+          gap: 8,
+        }}
+      >
+        <div>
+          <b>S:</b> {fmtSet(snap.S)}
+        </div>
+        <div>
+          <b>P:</b> {fmtSet(snap.P)}
+        </div>
+        <div>
+          <b>U:</b> {fmtSet(snap.Uchunk)}
+        </div>
+        <div>
+          <b>W:</b> {fmtSet(snap.W)}
+        </div>
+        <div style={{ gridColumn: "span 2" }}>
+          <b>Forest:</b>{" "}
+          {(snap.forest ?? []).map(({ u, v }) => `${u}→${v}`).join(", ") || "—"}
+        </div>
+        <div>
+          <b>Level:</b> {snap.level}
+        </div>
+        <div>
+          <b>B:</b> {fmtBound(snap.B)}
+        </div>
+        <div>
+          <b>B′:</b> {fmtBound(snap.Bp)}
+        </div>
+      </div>
+      <div style={{ marginTop: 6 }}>
+        <b>Call stack:</b>
+        {snap.stack.length === 0 && " —"}
+        {snap.stack.map((f, depth) => (
+          <div key={`frame-${f.id}`} style={{ paddingLeft: 12 * depth }}>
+            <code>
+              BMSSP(l={f.level}, B={fmtDist(f.B)}, S=
+              {`{${Array.from(f.S).join(", ")}}`})
+            </code>{" "}
+            U={`{${Array.from(f.U).join(", ")}}`}
+            {f.returned &&
+              ` → B′=${fmtDist(f.Bp!)}, returned {${Array.from(f.returned).join(
+                ", "
+              )}}`}
+          </div>
+        ))}
+      </div>
+    </>
+  );
+}
+
+// Blocks of D for the innermost BMSSP call that owns one, D0 then D1.
+function BlockListCard({ snap }: { snap: PaperSnapshot }) {
+  const D = snap.D;
+  const renderBlocks = (name: string, blocks: Block[]) => (
+    <div style={{ display: "flex", alignItems: "flex-start", gap: 6 }}>
+      <b style={{ width: 24 }}>{name}</b>
+      {blocks.length === 0 && <span style={styles.small}>—</span>}
+      {blocks.map((b, i) => (
+        <div
+          key={`${name}-${i}`}
+          style={{
+            border: "1px solid #cbd5e1",
+            borderRadius: 6,
+            padding: "4px 6px",
+            background: "#f8fafc",
+          }}
+        >
+          {b.items.length === 0 ? (
+            <span style={styles.small}>empty</span>
+          ) : (
+            b.items.map((e) => (
+              <code key={e.key} style={{ marginRight: 4 }}>
+                {e.key}:{e.value}
+              </code>
+            ))
+          )}
+          {b.upper !== undefined && (
+            <div style={styles.small}>≤ {fmtBound(b.upper)}</div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div style={{ ...styles.card, marginTop: 16 }}>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "baseline",
+        }}
+      >
+        <div style={{ fontWeight: 600, fontSize: 14 }}>
+          Data structure D (Lemma 3.3)
+        </div>
+        <div style={styles.small}>
+          {D
+            ? `Level ${D.level} · M = ${D.view.M} · B = ${fmtBound(D.view.B)}${
+                D.view.lastOp ? ` · last op: ${D.view.lastOp}` : ""
+              }`
+            : "No active D at this step"}
+        </div>
+      </div>
+      {D && (
+        <div style={{ marginTop: 8, display: "grid", gap: 6, fontSize: 12 }}>
+          {renderBlocks("D0", D.view.D0)}
+          {renderBlocks("D1", D.view.D1)}
+          <div>
+            <b>Last Pull:</b>{" "}
+            {D.view.lastPull
+              ? `S = {${D.view.lastPull.S.join(", ")}}, x = ${fmtBound(
+                  D.view.lastPull.x
+                )}`
+              : "—"}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// One row per BMSSP call, indented by depth. Calls not reached yet are faded,
+// the innermost active call is shaded and its callers are bold; clicking a
+// call seeks the panel to the step that made it.
+function RecursionTreeCard({
+  snap,
+  trace,
+}: {
+  snap: PaperSnapshot;
+  trace: PanelTrace<PaperSnapshot>;
+}) {
+  const calls = useMemo(() => callTree(trace.steps), [trace.steps]);
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  const byId = new Map(calls.map((c) => [c.id, c]));
+  const hidden = (c: CallNode): boolean =>
+    c.parent !== undefined &&
+    (collapsed.has(c.parent) || hidden(byId.get(c.parent)!));
+  const toggle = (id: number) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  return (
+    <div style={{ ...styles.card, marginTop: 16 }}>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "baseline",
+        }}
+      >
+        <div style={{ fontWeight: 600, fontSize: 14 }}>Recursion tree</div>
+        <div style={styles.small}>
+          {calls.length} calls · depth {snap.stack?.length ?? 0} at this step
+        </div>
+      </div>
+      <div
+        style={{
+          marginTop: 8,
+          maxHeight: 320,
+          overflowY: "auto" as const,
+          fontSize: 12,
+        }}
+      >
+        {calls
+          .filter((c) => !hidden(c))
+          .map((c) => {
+            const state = callState(c, snap);
+            // callers show their U as it grows; returned calls their result
+            const live = snap.stack?.find((f) => f.id === c.id) ?? c.frame;
+            const f = c.frame;
+            const returned = state === "returned" || live.returned;
+            return (
+              <div
+                key={`call-${c.id}`}
+                title="Jump to this call"
+                onClick={() => trace.onSeek(c.first)}
+                style={{
+                  display: "flex",
+                  gap: 6,
+                  alignItems: "baseline",
+                  padding: "2px 6px",
+                  marginLeft: c.depth * 16,
+                  cursor: "pointer",
+                  borderRadius: 4,
+                  opacity: state === "pending" ? 0.45 : 1,
+                  fontWeight: state === "running" ? 600 : undefined,
+                  background: state === "active" ? "#ede9fe" : undefined,
+                  border:
+                    state === "active"
+                      ? "1px solid #a855f7"
+                      : "1px solid transparent",
+                }}
+              >
+                <button
+                  style={{
+                    ...styles.button,
+                    padding: "0 4px",
+                    fontSize: 11,
+                    visibility: c.children.length ? "visible" : "hidden",
+                  }}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    toggle(c.id);
+                  }}
+                >
+                  {collapsed.has(c.id) ? "▸" : "▾"}
+                </button>
+                <span>
+                  <b>l={f.level}</b> B={fmtBound(f.B)} S={"{"}
+                  {fmtSet(f.S)}
+                  {"}"}
+                  {f.level > 0 &&
+                    ` P={${
+                      c.pivotsAt !== undefined && snap.step >= c.pivotsAt
+                        ? fmtSet(f.P)
+                        : "…"
+                    }}`}
+                </span>
+                <span style={styles.small}>
+                  {returned
+                    ? `→ B′=${fmtBound(f.Bp)}, |U|=${f.returned?.size ?? 0}`
+                    : state === "pending"
+                    ? ""
+                    : `|U|=${live.U.size} so far`}
+                </span>
+              </div>
+            );
+          })}
+      </div>
+    </div>
+  );
+}
+
+const bmssp = defineAlgorithm<PaperSnapshot>({
+  id: "bmssp",
+  name: "BMSPP",
+  nonNegative: true,
+  complexity: () => "≈ O(m · log^(2 / 3) · n)",
+  run: (graph, src) => runPaperSteps(graph, src),
+  nodeTags: (nid, snap) => {
+    const tags: string[] = [];
+    if (snap.S?.has(nid)) tags.push("S");
+    if (snap.P?.has(nid)) tags.push("P");
+    if (snap.Uchunk?.has(nid)) tags.push("U");
+    if (snap.W?.has(nid)) tags.push("W");
+    return tags;
+  },
+  columns: [
+    {
+      header: "dist < B",
+      cell: (nid, snap) =>
+        snap.B === undefined ? "—" : snap.dist[nid] < snap.B ? "yes" : "no",
+    },
+  ],
+  highlight: (snap) => ({
+    pivots: snap.P,
+    U: snap.Uchunk,
+    edges: new Set((snap.forest ?? []).map(({ u, v }) => `${u}|${v}`)),
+  }),
+  details: (snap) => <BmsspDetails snap={snap} />,
+  card: (snap, trace) => (
+    <>
+      <BlockListCard snap={snap} />
+      <RecursionTreeCard snap={snap} trace={trace} />
+    </>
+  ),
+  pseudocode: BMSSP_CODE,
+});
+
+// ---------------- Dijkstra ----------------
+const dijkstra = defineAlgorithm<StepSnapshot>({
+  id: "dijkstra",
+  name: "Dijkstra",
+  nonNegative: true,
+  complexity: (options) =>
+    QUEUE_KINDS.find((q) => q.kind === options.queue)?.bound ??
+    "O(m + n log n)",
+  settings: [
+    {
+      key: "queue",
+      label: "Queue",
+      kind: "select",
+      choices: QUEUE_KINDS.map((q) => ({ value: q.kind, label: q.label })),
+      default: "binary",
+    },
+  ],
+  run: (graph, src, options) =>
+    runDijkstraSteps(graph, src, options.queue as QueueKind),
+  summary: (snap) =>
+    snap.ops &&
+    `insert ${snap.ops.insert} · decrease-key ${snap.ops.decreaseKey} · ` +
+      `extract-min ${snap.ops.extractMin} · comparisons ${snap.ops.comparisons}`,
+  pseudocode: DIJKSTRA_CODE,
+});
+
+// ---------------- Bucket queues ----------------
+// Nodes are filled by bucket index, cycling through the palette.
+const BUCKET_COLORS = [
+  "#fef3c7",
+  "#e0f2fe",
+  "#fce7f3",
+  "#dcfce7",
+  "#ede9fe",
+  "#ffedd5",
+  "#ccfbf1",
+  "#f1f5f9",
+];
+const bucketColor = (index: number) =>
+  BUCKET_COLORS[index % BUCKET_COLORS.length];
+
+function bucketOf(nid: NodeId, snap: BucketSnapshot) {
+  return snap.buckets.find((b) => b.nodes.includes(nid))?.index;
+}
+
+function BucketDetails({ snap }: { snap: BucketSnapshot }) {
+  return (
+    <div style={{ marginTop: 6 }}>
+      <b>Buckets</b> (width Δ = {snap.delta}
+      {snap.bucket !== undefined && `, processing ${snap.bucket}`}
+      {snap.phase && `, ${snap.phase} phase`}):
+      <div style={{ display: "flex", gap: 6, flexWrap: "wrap", marginTop: 4 }}>
+        {snap.buckets.length === 0 && <span>—</span>}
+        {snap.buckets.map((b) => (
+          <div
+            key={`bucket-${b.index}`}
+            style={{
+              border: "1px solid #cbd5e1",
+              borderRadius: 6,
+              padding: "4px 6px",
+              background: bucketColor(b.index),
+            }}
+          >
+            <b>{b.index}</b> [{b.index * snap.delta},{" "}
+            {(b.index + 1) * snap.delta}
+            ): {b.nodes.join(", ")}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const bucketView = {
+  nodeTags: (nid: NodeId, snap: BucketSnapshot) => {
+    const i = bucketOf(nid, snap);
+    return i === undefined ? [] : [`bucket ${i}`];
+  },
+  columns: [
+    {
+      header: "bucket",
+      cell: (nid: NodeId, snap: BucketSnapshot) => bucketOf(nid, snap) ?? "—",
+    },
+  ],
+  summary: (snap: BucketSnapshot) =>
+    snap.buckets.map((b) => `B${b.index}: ${b.nodes.join(", ")}`).join(" · ") ||
+    "all buckets empty",
+  highlight: (snap: BucketSnapshot) => {
+    const fills: Record<NodeId, string> = {};
+    snap.buckets.forEach((b) =>
+      b.nodes.forEach((v) => (fills[v] = bucketColor(b.index)))
+    );
+    return { fills };
+  },
+  details: (snap: BucketSnapshot) => <BucketDetails snap={snap} />,
+};
+
+const dial = defineAlgorithm<BucketSnapshot>({
+  id: "dial",
+  name: "Dial",
+  nonNegative: true,
+  complexity: () => "O(m + n · C), C = max weight",
+  run: (graph, src) => runDialSteps(graph, src),
+  ...bucketView,
+});
+
+const deltaStepping = defineAlgorithm<BucketSnapshot>({
+  id: "delta-stepping",
+  name: "Δ-stepping",
+  nonNegative: true,
+  complexity: (options) =>
+    `O(n + m + L / Δ) buckets + re-relaxations, Δ = ${options.delta}`,
+  settings: [
+    {
+      key: "delta",
+      label: "Δ",
+      kind: "number",
+      min: DELTA_MIN,
+      max: DELTA_MAX,
+      step: 0.5,
+      default: 3,
+    },
+  ],
+  run: (graph, src, options) =>
+    runDeltaSteppingSteps(graph, src, Number(options.delta)),
+  ...bucketView,
+});
+
+// ---------------- Bellman–Ford ----------------
+const bellmanFord = defineAlgorithm<BellmanFordSnapshot>({
+  id: "bellman-ford",
+  name: "Bellman–Ford",
+  complexity: () => "O(n · m), negative weights allowed",
+  run: (graph, src) => runBellmanFordSteps(graph, src),
+  nodeTags: (nid, snap) =>
+    snap.negativeCycle?.includes(nid) ? ["negative cycle"] : [],
+  summary: (snap) =>
+    snap.negativeCycle
+      ? `Negative cycle: ${[...snap.negativeCycle, snap.negativeCycle[0]].join(
+          " → "
+        )}`
+      : `Round ${snap.round}`,
+  highlight: (snap) => {
+    const cycle = snap.negativeCycle;
+    if (!cycle) return {};
+    const fills: Record<NodeId, string> = {};
+    cycle.forEach((v) => (fills[v] = "#fecaca"));
+    return {
+      fills,
+      edges: new Set(
+        cycle.map((v, i) => `${v}|${cycle[(i + 1) % cycle.length]}`)
+      ),
+      edgeColor: "#dc2626",
+    };
+  },
+});
+
+export const ALGORITHMS: AlgorithmEntry[] = [
+  bmssp,
+  dijkstra,
+  dial,
+  deltaStepping,
+  bellmanFord,
+];
+
+export function getAlgorithm(id: string): AlgorithmEntry {
+  return ALGORITHMS.find((a) => a.id === id) ?? ALGORITHMS[0];
+}
+
+export function defaultOptions(entry: AlgorithmEntry): AlgorithmOptions {
+  const out: AlgorithmOptions = {};
+  (entry.settings ?? []).forEach((s) => (out[s.key] = s.default));
+  return out;
+}
+
+// A restored value for a setting, or its default when the value does not fit:
+// numbers are clamped to the setting's range, selects must name a choice.
+export function settingValue(
+  s: AlgorithmSetting,
+  v: string | number | undefined
+): string | number {
+  if (s.kind === "number") {
+    return typeof v === "number" && Number.isFinite(v)
+      ? Math.min(s.max, Math.max(s.min, v))
+      : s.default;
+  }
+  return s.choices.some((c) => c.value === v) ? (v as string) : s.default;
+}
+
+// Runs an entry, or returns a single explanatory snapshot when the graph
+// violates its non-negativity precondition (the engines would loop or lie).
+export function runAlgorithm(
+  entry: AlgorithmEntry,
+  graph: Graph,
+  src: NodeId,
+  options: AlgorithmOptions
+): StepSnapshot[] {
+  const negative = entry.nonNegative ? negativeEdges(graph) : [];
+  if (negative.length === 0) return entry.run(graph, src, options);
+  const dist: Record<NodeId, number> = {};
+  graph.nodes.forEach((n) => (dist[n.id] = n.id === src ? 0 : Infinity));
+  return [
+    {
+      step: 0,
+      kind: "done",
+      description: `Disabled: ${entry.name} requires non-negative weights; ${
+        negative.length
+      } negative edge${negative.length === 1 ? "" : "s"} (${negative
+        .map((e) => `${e.source} → ${e.target}`)
+        .join(", ")})`,
+      settled: new Set(),
+      frontier: new Set(),
+      dist,
+      pred: {},
+    },
+  ];
+}
@@ -0,0 +1,71 @@
+import { alignNext, orderDifference, settleOrder } from "./alignment";
+import { runPaperSteps } from "./bmssp";
+import { runDijkstraSteps } from "./dijkstra";
+import { generateGraph } from "./graph";
+import { referenceDistances } from "./oracle";
+
+describe("semantic lock-step", () => {
+  const g = generateGraph(14, 0.3, 79);
+  const traces = [runPaperSteps(g, "0"), runDijkstraSteps(g, "0")];
+
+  // Plays aligned moves to the end, returning the visited index pairs.
+  function play(order?: string[]) {
+    const visited: number[][] = [];
+    let indices: number[] | undefined = [0, 0];
+    while (indices) {
+      visited.push(indices);
+      indices = alignNext(traces, indices, order);
+    }
+    return visited;
+  }
+
+  it("moves by settled count until both traces are done", () => {
+    const visited = play();
+    const finals = traces.map((t) => t[t.length - 1].settled.size);
+    const end = visited[visited.length - 1];
+    traces.forEach((t, k) => expect(t[end[k]].settled.size).toBe(finals[k]));
+    visited.slice(1).forEach((ix, m) => {
+      const prev = visited[m];
+      ix.forEach((i, k) => expect(i).toBeGreaterThanOrEqual(prev[k]));
+      // the panel with fewer settled vertices never stays behind
+      const counts = ix.map((i, k) => traces[k][i].settled.size);
+      const before = prev.map((i, k) => traces[k][i].settled.size);
+      expect(Math.min(...counts)).toBeGreaterThan(Math.min(...before));
+    });
+  });
+
+  it("follows a given vertex order", () => {
+    const ref = referenceDistances(g, "0");
+    const order = Object.keys(ref.dist)
+      .filter((v) => ref.dist[v] < Infinity)
+      .sort((a, b) => ref.dist[a] - ref.dist[b]);
+    const visited = play(order);
+    visited.slice(1).forEach((ix) => {
+      const v = order.find(
+        (x) => !traces.every((t, k) => t[ix[k]].settled.has(x))
+      );
+      // everything before the first pending vertex is settled everywhere
+      order
+        .slice(0, v === undefined ? order.length : order.indexOf(v))
+        .forEach((x) =>
+          traces.forEach((t, k) => expect(t[ix[k]].settled.has(x)).toBe(true))
+        );
+    });
+  });
+
+  it("reports where settle orders diverge", () => {
+    const snap = (settled: string[]) => ({
+      ...traces[1][0],
+      settled: new Set(settled),
+    });
+    const x = [snap([]), snap(["0"]), snap(["0", "1"]), snap(["0", "1", "2"])];
+    const y = [snap([]), snap(["0"]), snap(["0", "2"]), snap(["0", "2", "1"])];
+    expect(settleOrder(y)).toEqual(["0", "2", "1"]);
+    expect(orderDifference([x, y], [3, 3])).toEqual({
+      position: 1,
+      vertices: ["1", "2"],
+    });
+    expect(orderDifference([x, y], [1, 3])).toBeUndefined();
+    expect(orderDifference([x, x], [3, 3])).toBeUndefined();
+  });
+});
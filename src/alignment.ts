@@ -0,0 +1,85 @@
+import { NodeId, StepSnapshot } from "./graph";
+
+// ---------------- Semantic lock-step ----------------
+// Locked panels can move together by raw step index, or by what they have
+// settled: "settled" lines them up on "k vertices settled", "order" on "has
+// settled vertex v" following a given vertex order. Engines that settle in
+// batches (BMSSP returning U) overshoot; the others then catch up before
+// anyone moves on.
+
+export type AlignMode = "step" | "settled" | "order";
+
+export const ALIGN_MODES: { mode: AlignMode; label: string }[] = [
+  { mode: "step", label: "Step index" },
+  { mode: "settled", label: "Settled count" },
+  { mode: "order", label: "Settle order" },
+];
+
+// Vertices in the order a trace settles them (batch members in set order).
+export function settleOrder(steps: StepSnapshot[], upTo = steps.length - 1) {
+  const order: NodeId[] = [];
+  const seen = new Set<NodeId>();
+  steps.slice(0, upTo + 1).forEach((s) =>
+    s.settled.forEach((v) => {
+      if (seen.has(v)) return;
+      seen.add(v);
+      order.push(v);
+    })
+  );
+  return order;
+}
+
+function firstStep(
+  steps: StepSnapshot[],
+  from: number,
+  reached: (s: StepSnapshot) => boolean
+) {
+  for (let j = from; j < steps.length; j++) if (reached(steps[j])) return j;
+  return steps.length - 1;
+}
+
+// Indices after one aligned move, or undefined when no panel has anything
+// left to settle. Without an order the target is one more than the smallest
+// settled count still below its trace's final count.
+export function alignNext(
+  traces: StepSnapshot[][],
+  indices: number[],
+  order?: NodeId[]
+): number[] | undefined {
+  const at = traces.map((steps, k) => steps[indices[k]]);
+  const last = traces.map((steps) => steps[steps.length - 1]);
+
+  if (!order) {
+    const open = at
+      .map((s, k) => ({ n: s.settled.size, final: last[k].settled.size }))
+      .filter(({ n, final }) => n < final);
+    if (open.length === 0) return undefined;
+    const target = Math.min(...open.map(({ n }) => n)) + 1;
+    return traces.map((steps, k) =>
+      at[k].settled.size >= target
+        ? indices[k]
+        : firstStep(steps, indices[k], (s) => s.settled.size >= target)
+    );
+  }
+
+  const v = order.find((x) =>
+    at.some((s, k) => !s.settled.has(x) && last[k].settled.has(x))
+  );
+  if (v === undefined) return undefined;
+  return traces.map((steps, k) =>
+    at[k].settled.has(v) || !last[k].settled.has(v)
+      ? indices[k]
+      : firstStep(steps, indices[k], (s) => s.settled.has(v))
+  );
+}
+
+// First position where the panels' settle orders so far disagree, with the
+// vertex each one settled there; undefined while they agree.
+export function orderDifference(traces: StepSnapshot[][], indices: number[]) {
+  const orders = traces.map((steps, k) => settleOrder(steps, indices[k]));
+  const common = Math.min(...orders.map((o) => o.length));
+  for (let j = 0; j < common; j++)
+    if (orders.some((o) => o[j] !== orders[0][j]))
+      return { position: j, vertices: orders.map((o) => o[j]) };
+  return undefined;
+}
@@ -0,0 +1,62 @@
+import { runBellmanFordSteps } from "./bellmanFord";
+import { runDijkstraSteps } from "./dijkstra";
+import { Graph, generateGraph } from "./graph";
+
+function tiny(edges: [string, string, number][]): Graph {
+  const ids = Array.from(new Set(edges.flatMap(([u, v]) => [u, v])));
+  return {
+    nodes: ids.map((id) => ({
+      id,
+      position: { x: 0, y: 0 },
+      data: { label: id, status: "unseen", dist: Infinity },
+    })),
+    edges: edges.map(([source, target, w], i) => ({
+      id: `e${i}`,
+      source,
+      target,
+      label: String(w),
+      data: { w },
+    })),
+  };
+}
+
+describe("runBellmanFordSteps", () => {
+  it("matches Dijkstra on non-negative graphs", () => {
+    for (let seed = 1; seed < 10; seed++) {
+      const g = generateGraph(12, 0.3, seed);
+      const bf = runBellmanFordSteps(g, "0");
+      const dj = runDijkstraSteps(g, "0");
+      expect(bf[bf.length - 1].dist).toEqual(dj[dj.length - 1].dist);
+      expect(bf[bf.length - 1].negativeCycle).toBeUndefined();
+    }
+  });
+
+  it("handles negative edges without a cycle", () => {
+    const g = tiny([
+      ["s", "a", 4],
+      ["s", "b", 2],
+      ["b", "a", -3],
+      ["a", "c", 1],
+    ]);
+    const steps = runBellmanFordSteps(g, "s");
+    const last = steps[steps.length - 1];
+    expect(last.dist).toEqual({ s: 0, a: -1, b: 2, c: 0 });
+    expect(last.pred.a).toBe("b");
+  });
+
+  it("reports the negative cycle in edge order", () => {
+    const g = tiny([
+      ["s", "a", 1],
+      ["a", "b", 1],
+      ["b", "c", -4],
+      ["c", "a", 1],
+      ["c", "d", 1],
+    ]);
+    const steps = runBellmanFordSteps(g, "s");
+    const cycle = steps[steps.length - 1].negativeCycle!;
+    expect(cycle.slice().sort()).toEqual(["a", "b", "c"]);
+    const i = cycle.indexOf("a");
+    expect(cycle[(i + 1) % 3]).toBe("b");
+    expect(cycle[(i + 2) % 3]).toBe("c");
+  });
+});
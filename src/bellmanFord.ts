@@ -0,0 +1,122 @@
+import {
+  BellmanFordSnapshot,
+  Graph,
+  NodeId,
+  StepSnapshot,
+  clonePred,
+  cloneSet,
+} from "./graph";
+import { countRelax, createMetrics } from "./metrics";
+
+// ---------------- Bellman–Ford steps ----------------
+// Round i relaxes every edge once, in edge-list order; the frontier is the
+// set of vertices whose distance changed in the previous round (only their
+// out-edges can improve anything). Stops early after a quiet round; if round
+// n still improves a distance, walks pred back to the negative cycle.
+export function runBellmanFordSteps(
+  graph: Graph,
+  src: NodeId
+): BellmanFordSnapshot[] {
+  const { nodes, edges } = graph;
+  const n = nodes.length;
+
+  const dist: Record<NodeId, number> = {};
+  nodes.forEach((x) => (dist[x.id] = Infinity));
+  dist[src] = 0;
+  const pred: Record<NodeId, NodeId | undefined> = {};
+  const settled = new Set<NodeId>();
+  let frontier = new Set<NodeId>([src]);
+  let round = 0;
+  const metrics = createMetrics();
+
+  const steps: BellmanFordSnapshot[] = [];
+  const push = (
+    snap: Partial<StepSnapshot> &
+      Pick<BellmanFordSnapshot, "kind" | "negativeCycle">
+  ) => {
+    steps.push({
+      step: steps.length,
+      kind: snap.kind,
+      description: snap.description ?? "",
+      current: snap.current,
+      settled: cloneSet(settled),
+      frontier: cloneSet(frontier),
+      dist: { ...dist },
+      relaxing: snap.relaxing,
+      pred: clonePred(pred),
+      round,
+      negativeCycle: snap.negativeCycle,
+      metrics: { ...metrics, queueSize: frontier.size },
+    });
+  };
+
+  push({ kind: "init", description: `Init: dist(${src}) = 0; all others ∞` });
+
+  let changed: NodeId | undefined;
+  for (round = 1; round <= n; round++) {
+    push({
+      kind: "phase",
+      description:
+        round < n
+          ? `Round ${round}/${n - 1}: relax every edge`
+          : `Round ${n}: check for a negative cycle`,
+    });
+    const touched = new Set<NodeId>();
+    changed = undefined;
+    for (const e of edges) {
+      const u = e.source;
+      const v = e.target;
+      const w = e.data?.w ?? Number(e.label);
+      if (dist[u] === Infinity) continue;
+      const cand = dist[u] + w;
+      const improved = cand < dist[v];
+      if (improved) {
+        dist[v] = cand;
+        pred[v] = u;
+        touched.add(v);
+        changed = v;
+      }
+      countRelax(metrics, improved);
+      push({
+        kind: improved ? "relax" : "relax-noop",
+        description: improved
+          ? `Round ${round}: relax (${u} → ${v}, w=${w}): dist(${v}) ← ${cand}`
+          : `Round ${round}: relax (${u} → ${v}, w=${w}): no improvement`,
+        current: u,
+        relaxing: { u, v, w, improved },
+      });
+    }
+    frontier = touched;
+    if (changed === undefined || round === n) break;
+  }
+
+  if (changed !== undefined && round === n) {
+    // Walking pred n times from a vertex improved in round n lands on the cycle.
+    let x: NodeId = changed;
+    for (let i = 0; i < n; i++) x = pred[x] ?? x;
+    const cycle: NodeId[] = [x];
+    for (let y = pred[x]; y !== undefined && y !== x; y = pred[y])
+      cycle.push(y);
+    cycle.reverse();
+    push({
+      kind: "cycle",
+      description: `Negative cycle: ${[...cycle, cycle[0]].join(
+        " → "
+      )}; distances are undefined`,
+      negativeCycle: cycle,
+    });
+    return steps;
+  }
+
+  nodes.forEach((x) => {
+    if (dist[x.id] < Infinity) settled.add(x.id);
+  });
+  frontier = new Set();
+  push({
+    kind: "done",
+    description: `Done after ${round} round${
+      round === 1 ? "" : "s"
+    }: no distance changed, ${settled.size} vertices final`,
+  });
+  return steps;
+}
@@ -0,0 +1,62 @@
+import { createBlockList } from "./blockList";
+
+describe("createBlockList", () => {
+  it("pulls the M smallest keys with a separating bound", () => {
+    const D = createBlockList(3, 100);
+    [9, 4, 7, 1, 8, 3, 6].forEach((v) => D.insert(`k${v}`, v));
+    const { S, x } = D.pull();
+    expect(S.sort()).toEqual(["k1", "k3", "k4"]);
+    expect(x).toBe(6);
+    expect(D.size).toBe(4);
+  });
+
+  it("keeps the smallest value per key", () => {
+    const D = createBlockList(4, 100);
+    D.insert("a", 5);
+    D.insert("a", 9);
+    D.insert("a", 2);
+    D.batchPrepend([{ key: "b", value: 1 }]);
+    expect(D.size).toBe(2);
+    expect(D.view().D1.flatMap((b) => b.items)).toEqual([
+      { key: "a", value: 2 },
+    ]);
+  });
+
+  it("splits blocks larger than M and bounds each one", () => {
+    const D = createBlockList(2, 50);
+    [5, 3, 8, 1, 9].forEach((v) => D.insert(`k${v}`, v));
+    const { D1 } = D.view();
+    expect(D1.length).toBeGreaterThan(1);
+    D1.forEach((b) => {
+      expect(b.items.length).toBeLessThanOrEqual(2);
+      b.items.forEach((e) => expect(e.value).toBeLessThanOrEqual(b.upper!));
+    });
+    D1.slice(1).forEach((b, i) =>
+      b.items.forEach((e) => expect(e.value).toBeGreaterThan(D1[i].upper!))
+    );
+  });
+
+  it("prepends batches in front of inserted blocks", () => {
+    const D = createBlockList(2, 50);
+    D.insert("a", 20);
+    D.batchPrepend([
+      { key: "b", value: 3 },
+      { key: "c", value: 1 },
+      { key: "d", value: 2 },
+    ]);
+    expect(D.view().D0).toHaveLength(3); // ⌈M/2⌉ per block
+    expect(D.pull()).toEqual({ S: ["c", "d"], x: 3 });
+    expect(D.pull()).toEqual({ S: ["b", "a"], x: 50 });
+    expect(D.size).toBe(0);
+  });
+
+  it("never splits a run of equal values across a pull", () => {
+    const D = createBlockList(1, 50);
+    D.insert("a", 4);
+    D.insert("b", 4);
+    D.insert("c", 6);
+    const { S, x } = D.pull();
+    expect(S.sort()).toEqual(["a", "b"]);
+    expect(x).toBe(6);
+  });
+});
@@ -0,0 +1,191 @@
+import { NodeId } from "./graph";
+
+// ---------------- Data structure D (Lemma 3.3) ----------------
+// Partial-sort structure from Duan et al. Keys are vertices, values are
+// tentative distances, and every key is stored at most once with its smallest
+// value. Elements live in blocks of at most M entries:
+//   D0 — blocks created by BatchPrepend, front block holds the smallest values;
+//   D1 — blocks created by Insert, ordered by an upper bound per block.
+// Neither sequence is sorted inside a block; only Pull looks at values, and
+// only at the prefix blocks it needs.
+
+export type Entry = { key: NodeId; value: number };
+
+export type Block = { upper?: number; items: Entry[] };
+
+export type PullResult = { x: number; S: NodeId[] };
+
+export interface BlockListView {
+  M: number;
+  B: number;
+  D0: Block[];
+  D1: Block[];
+  lastOp?: string;
+  lastPull?: PullResult;
+}
+
+export interface BlockList {
+  insert(key: NodeId, value: number): void;
+  batchPrepend(list: Entry[]): void;
+  pull(): PullResult;
+  readonly size: number;
+  view(): BlockListView;
+}
+
+function byValue(a: Entry, b: Entry) {
+  return a.value - b.value;
+}
+
+// Splits entries into consecutive blocks of at most `size`, smallest first.
+function chunkSorted(list: Entry[], size: number): Entry[][] {
+  const sorted = list.slice().sort(byValue);
+  const out: Entry[][] = [];
+  for (let i = 0; i < sorted.length; i += size)
+    out.push(sorted.slice(i, i + size));
+  return out;
+}
+
+export function createBlockList(M: number, B: number): BlockList {
+  const D0: Block[] = [];
+  const D1: Block[] = [{ upper: B, items: [] }];
+  const where = new Map<NodeId, { block: Block; value: number }>();
+  let lastOp: string | undefined;
+  let lastPull: PullResult | undefined;
+
+  const remove = (key: NodeId) => {
+    const at = where.get(key);
+    if (!at) return;
+    at.block.items = at.block.items.filter((e) => e.key !== key);
+    where.delete(key);
+  };
+
+  const dropEmpty = () => {
+    for (let i = D0.length - 1; i >= 0; i--)
+      if (D0[i].items.length === 0) D0.splice(i, 1);
+    for (let i = D1.length - 1; i >= 0; i--)
+      if (D1[i].items.length === 0 && D1.length > 1) D1.splice(i, 1);
+    if (D1.length === 0) D1.push({ upper: B, items: [] });
+  };
+
+  // Insert: the block with the smallest upper bound ≥ value receives the
+  // entry; a block that grows past M is split around its median.
+  const insert = (key: NodeId, value: number) => {
+    lastOp = `Insert ⟨${key}, ${value}⟩`;
+    const at = where.get(key);
+    if (at && at.value <= value) return;
+    remove(key);
+    let idx = D1.findIndex((b) => (b.upper ?? B) >= value);
+    if (idx < 0) idx = D1.length - 1;
+    const block = D1[idx];
+    block.items.push({ key, value });
+    where.set(key, { block, value });
+    if (block.items.length > M) {
+      const half = Math.ceil(block.items.length / 2);
+      const [lo, hi] = chunkSorted(block.items, half);
+      const loBlock: Block = {
+        upper: Math.max(...lo.map((e) => e.value)),
+        items: lo,
+      };
+      block.items = hi;
+      D1.splice(idx, 0, loBlock);
+      lo.forEach((e) => where.set(e.key, { block: loBlock, value: e.value }));
+    }
+    dropEmpty();
+  };
+
+  // BatchPrepend: every value is smaller than anything already in D, so the
+  // list goes to the front of D0 as blocks of at most ⌈M/2⌉ (one block if
+  // it fits in M).
+  const batchPrepend = (list: Entry[]) => {
+    const best = new Map<NodeId, number>();
+    list.forEach(({ key, value }) => {
+      const cur = best.get(key);
+      if (cur === undefined || value < cur) best.set(key, value);
+    });
+    const fresh: Entry[] = [];
+    best.forEach((value, key) => {
+      const at = where.get(key);
+      if (at && at.value <= value) return;
+      remove(key);
+      fresh.push({ key, value });
+    });
+    if (fresh.length > 0) {
+      const parts =
+        fresh.length <= M ? [fresh] : chunkSorted(fresh, Math.ceil(M / 2));
+      const blocks = parts.map((items) => ({ items }));
+      D0.unshift(...blocks);
+      blocks.forEach((b) =>
+        b.items.forEach((e) => where.set(e.key, { block: b, value: e.value }))
+      );
+    }
+    dropEmpty();
+    lastOp = `BatchPrepend ${fresh.length} of ${list.length}`;
+  };
+
+  const collectPrefix = (seq: Block[]) => {
+    const out: Entry[] = [];
+    for (const b of seq) {
+      if (out.length >= M) break;
+      out.push(...b.items);
+    }
+    return out;
+  };
+
+  const minRemaining = () => {
+    const first0 = D0.find((b) => b.items.length > 0);
+    const first1 = D1.find((b) => b.items.length > 0);
+    const mins = [first0, first1]
+      .filter((b): b is Block => !!b)
+      .map((b) => Math.min(...b.items.map((e) => e.value)));
+    return mins.length > 0 ? Math.min(...mins) : B;
+  };
+
+  // Pull: the M smallest entries come from the prefix blocks of D0 and D1.
+  // A run of equal values is never split, so max(S) < x always holds.
+  const pull = (): PullResult => {
+    const candidates = collectPrefix(D0)
+      .concat(collectPrefix(D1))
+      .sort(byValue);
+    const take = Math.min(M, candidates.length);
+    const S = candidates.slice(0, take).map((e) => e.key);
+    S.forEach(remove);
+    dropEmpty();
+    const last = candidates[take - 1]?.value;
+    while (where.size > 0 && minRemaining() === last) {
+      const b = D0.concat(D1).find((bl) =>
+        bl.items.some((e) => e.value === last)
+      )!;
+      const e = b.items.find((en) => en.value === last)!;
+      S.push(e.key);
+      remove(e.key);
+      dropEmpty();
+    }
+    const x = where.size > 0 ? minRemaining() : B;
+    lastPull = { x, S };
+    lastOp = `Pull ${S.length} (M = ${M})`;
+    return lastPull;
+  };
+
+  return {
+    insert,
+    batchPrepend,
+    pull,
+    get size() {
+      return where.size;
+    },
+    view(): BlockListView {
+      const copy = (b: Block): Block => ({
+        upper: b.upper,
+        items: b.items.slice(),
+      });
+      return {
+        M,
+        B,
+        D0: D0.map(copy),
+        D1: D1.map(copy),
+        lastOp,
+        lastPull: lastPull && { x: lastPull.x, S: lastPull.S.slice() },
+      };
+    },
+  };
+}
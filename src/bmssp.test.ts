@@ -0,0 +1,127 @@
+import { runPaperSteps } from "./bmssp";
+import { Graph, NodeId, generateGraph } from "./graph";
+import { referenceDistances } from "./oracle";
+
+function referenceDist(graph: Graph, src: NodeId) {
+  const dist: Record<NodeId, number> = {};
+  graph.nodes.forEach((n) => (dist[n.id] = Infinity));
+  dist[src] = 0;
+  for (let i = 0; i < graph.nodes.length; i++)
+    for (const e of graph.edges) {
+      const cand = dist[e.source] + (e.data?.w ?? Number(e.label));
+      if (cand < dist[e.target]) dist[e.target] = cand;
+    }
+  return dist;
+}
+
+function withWeights(graph: Graph, w: (i: number) => number): Graph {
+  return {
+    nodes: graph.nodes,
+    edges: graph.edges.map((e, i) => ({
+      ...e,
+      label: String(w(i)),
+      data: { w: w(i) },
+    })),
+  };
+}
+
+describe("runPaperSteps", () => {
+  it("matches reference distances on random graphs", () => {
+    for (let seed = 1; seed < 60; seed++) {
+      const g = generateGraph(5 + (seed % 14), 0.15 + (seed % 10) * 0.05, seed);
+      const steps = runPaperSteps(g, "0");
+      const last = steps[steps.length - 1];
+      const ref = referenceDist(g, "0");
+      expect(last.dist).toEqual(ref);
+      g.nodes.forEach((n) =>
+        expect(last.settled.has(n.id)).toBe(ref[n.id] < Infinity)
+      );
+    }
+  });
+
+  it("terminates on ties and zero-weight edges", () => {
+    for (let seed = 1; seed < 30; seed++) {
+      const g = withWeights(generateGraph(16, 0.4, seed), (i) => i % 2);
+      const steps = runPaperSteps(g, "0");
+      expect(steps[steps.length - 1].dist).toEqual(referenceDist(g, "0"));
+    }
+  });
+
+  // Long zero-weight chains tie many tight parents; the pred forest then
+  // splits them into small trees and used to leave their roots unpivoted.
+  it("matches the oracle with zero and fractional weights at n ≥ 150", () => {
+    [23, 3, 8, 41, 57].forEach((seed) => {
+      const g = withWeights(generateGraph(173, 0.025, seed), (i) =>
+        i % 3 === 0 ? 0 : (i % 5) / 2
+      );
+      const steps = runPaperSteps(g, "0");
+      expect(steps[steps.length - 1].dist).toEqual(
+        referenceDistances(g, "0").dist
+      );
+    });
+  });
+
+  it("records the call stack of nested BMSSP calls", () => {
+    const steps = runPaperSteps(generateGraph(12, 0.3, 7), "0");
+    const depths = steps.map((s) => s.stack.length);
+    expect(Math.max(...depths)).toBeGreaterThan(1);
+    expect(steps[steps.length - 1].stack).toHaveLength(0);
+    const baseCase = steps.find((s) => s.description.startsWith("BaseCase"));
+    expect(baseCase?.stack[baseCase.stack.length - 1].level).toBe(0);
+  });
+
+  it("emits one snapshot per FindPivots round with a forest of tight edges", () => {
+    const g = generateGraph(16, 0.25, 11);
+    const weight = new Map(
+      g.edges.map((e) => [`${e.source}|${e.target}`, e.data!.w])
+    );
+    const steps = runPaperSteps(g, "0");
+    const rounds = steps.filter((s) =>
+      / FindPivots round /.test(s.description)
+    );
+    expect(rounds.length).toBeGreaterThan(0);
+    rounds.forEach((s) => {
+      const W = s.W!;
+      s.forest!.forEach(({ u, v }) => {
+        expect(W.has(u) && W.has(v)).toBe(true);
+        expect(s.dist[u] + weight.get(`${u}|${v}`)!).toBe(s.dist[v]);
+      });
+    });
+    steps
+      .filter((s) => s.description.includes("FindPivots done"))
+      .forEach((s) =>
+        Array.from(s.P!).forEach((p) => expect(s.S.has(p)).toBe(true))
+      );
+  });
+
+  // With tied distances pred keeps one parent of many; the pivots must still
+  // be exactly the roots whose drawn trees have at least k vertices.
+  it("picks as pivots the roots whose drawn trees have ≥ k vertices", () => {
+    const graphs = [
+      generateGraph(18, 0.3, 1),
+      withWeights(generateGraph(24, 0.2, 5), (i) => i % 2),
+      withWeights(generateGraph(40, 0.1, 9), (i) => (i % 3) / 2),
+    ];
+    graphs.forEach((g) => {
+      const n = g.nodes.length;
+      const k = Math.max(2, Math.floor(Math.pow(Math.log2(n), 1 / 3)));
+      const done = runPaperSteps(g, "0").filter(
+        (s) => s.line === "pivots.done"
+      );
+      expect(done.length).toBeGreaterThan(0);
+      done.forEach((s) => {
+        const treeSize = (x: NodeId) => {
+          const seen = new Set([x]);
+          for (let grew = true; grew; ) {
+            grew = false;
+            s.forest!.forEach(({ u, v }) => {
+              if (seen.has(u) && !seen.has(v)) grew = !!seen.add(v);
+            });
+          }
+          return seen.size;
+        };
+        s.S.forEach((x) => expect(s.P!.has(x)).toBe(treeSize(x) >= k));
+      });
+    });
+  });
+});
@@ -0,0 +1,431 @@
+import { BlockList, createBlockList } from "./blockList";
+import {
+  BmsspFrame,
+  Graph,
+  NodeId,
+  PaperSnapshot,
+  buildAdjacency,
+  clonePred,
+  cloneSet,
+  fmtDist,
+} from "./graph";
+import { countRelax, createMetrics } from "./metrics";
+
+function fmtSet(s: Iterable<NodeId>) {
+  return `{${Array.from(s).join(", ")}}`;
+}
+
+function cloneFrame(f: BmsspFrame): BmsspFrame {
+  return {
+    ...f,
+    S: cloneSet(f.S),
+    P: f.P ? cloneSet(f.P) : undefined,
+    U: cloneSet(f.U),
+    returned: f.returned ? cloneSet(f.returned) : undefined,
+  };
+}
+
+// ---------------- Paper BMSSP steps ----------------
+// Recursive BMSSP(l, B, S) from Duan et al., "Breaking the Sorting Barrier
+// for Directed Single-Source Shortest Paths" (Algorithms 2 and 3). The paper
+// assumes distinct path lengths; ties are handled by relaxing with ≤ only
+// towards vertices that are not complete yet, and by never splitting a run of
+// equal distances across a Pull or BaseCase boundary. Each call at level ≥ 1
+// keeps its frontier in the block-based structure D of Lemma 3.3.
+export function runPaperSteps(graph: Graph, src: NodeId): PaperSnapshot[] {
+  const { nodes } = graph;
+  const adj = buildAdjacency(graph);
+
+  const n = nodes.length;
+  const k = Math.max(2, Math.floor(Math.pow(Math.log2(Math.max(4, n)), 1 / 3)));
+  const t = Math.max(2, Math.floor(Math.pow(Math.log2(Math.max(4, n)), 2 / 3)));
+  const L = Math.max(1, Math.ceil(Math.log2(n) / Math.max(1, t)));
+
+  const dist: Record<NodeId, number> = {};
+  nodes.forEach((nn) => (dist[nn.id] = Infinity));
+  dist[src] = 0;
+
+  const pred: Record<NodeId, NodeId | undefined> = {};
+
+  const settled = new Set<NodeId>(); // complete vertices
+  const frontier = new Set<NodeId>([src]);
+
+  const stack: BmsspFrame[] = [];
+  const lists = new Map<number, BlockList>(); // call id → its D
+  let nextCallId = 0;
+
+  const metrics = createMetrics();
+  let rounds = 0; // FindPivots rounds
+  let chunks = 0; // Pulls from D
+  let heap: Set<NodeId> | undefined; // BaseCase's H, while one is running
+
+  const steps: PaperSnapshot[] = [];
+  let step = 0;
+  const push = (snap: Partial<PaperSnapshot> & Pick<PaperSnapshot, "kind">) => {
+    const top = stack[stack.length - 1];
+    const owner = stack
+      .slice()
+      .reverse()
+      .find((f) => lists.has(f.id));
+    const P = snap.P ?? top?.P;
+    const U = snap.Uchunk ?? top?.U;
+    steps.push({
+      step: step++,
+      kind: snap.kind,
+      description: snap.description ?? "",
+      current: snap.current,
+      settled: cloneSet(settled),
+      frontier: cloneSet(frontier),
+      dist: { ...dist },
+      relaxing: snap.relaxing,
+      pred: clonePred(pred),
+      line: snap.line,
+      S: cloneSet(snap.S ?? top?.S ?? new Set<NodeId>()),
+      P: P ? cloneSet(P) : undefined,
+      Uchunk: U ? cloneSet(U) : undefined,
+      level: snap.level ?? top?.level,
+      B: snap.B ?? top?.B,
+      Bp: snap.Bp,
+      W: snap.W ? cloneSet(snap.W) : undefined,
+      forest: snap.forest,
+      H: heap && cloneSet(heap),
+      D: owner && { level: owner.level, view: lists.get(owner.id)!.view() },
+      stack: stack.map(cloneFrame),
+      metrics: {
+        ...metrics,
+        queueSize: Array.from(lists.values()).reduce(
+          (sum, D) => sum + D.size,
+          heap?.size ?? 0
+        ),
+        findPivotsRounds: rounds,
+        chunks,
+      },
+    });
+  };
+
+  const complete = (U: Iterable<NodeId>) => {
+    for (const x of Array.from(U)) {
+      settled.add(x);
+      frontier.delete(x);
+    }
+  };
+
+  // Lowers dist(v) through u when the candidate is strictly better. Returns
+  // whether the edge may be used at all (≤ and v not complete yet).
+  const relax = (u: NodeId, v: NodeId, w: number) => {
+    const cand = dist[u] + w;
+    const accepted = cand <= dist[v] && !settled.has(v);
+    const improved = accepted && cand < dist[v];
+    if (improved) {
+      dist[v] = cand;
+      pred[v] = u;
+      frontier.add(v);
+    }
+    countRelax(metrics, improved);
+    return { cand, accepted, improved };
+  };
+
+  // Tight edges (u, v) inside W, dist[u] + w = dist[v]; every vertex of S is
+  // a root. With ties a vertex can have several tight parents (another root
+  // among them), and pred records only one, which can split one long tight
+  // path among several small trees; so F keeps every tight edge and a root's
+  // tree is everything it reaches in F.
+  const forestOf = (W: Set<NodeId>) => {
+    const forest: { u: NodeId; v: NodeId }[] = [];
+    W.forEach((u) => {
+      for (const { v, w } of adj[u] ?? [])
+        if (W.has(v) && dist[u] + w === dist[v]) forest.push({ u, v });
+    });
+    return forest;
+  };
+
+  // Vertices reachable from root x in F, x included.
+  const treeSize = (forest: { u: NodeId; v: NodeId }[], x: NodeId) => {
+    const children = new Map<NodeId, NodeId[]>();
+    forest.forEach(({ u, v }) =>
+      children.set(u, [...(children.get(u) ?? []), v])
+    );
+    const seen = new Set([x]);
+    const queue = [x];
+    while (queue.length > 0)
+      for (const v of children.get(queue.pop()!) ?? [])
+        if (!seen.has(v)) {
+          seen.add(v);
+          queue.push(v);
+        }
+    return seen.size;
+  };
+
+  // Algorithm 1: k rounds of relaxation bounded by B, then pivots are the
+  // roots of S whose trees in F have at least k vertices.
+  const findPivots = (l: number, B: number, S: Set<NodeId>) => {
+    const W = cloneSet(S);
+    push({
+      kind: "find-pivots",
+      line: "pivots.init",
+      description: `Level ${l}: FindPivots on S (B=${fmtDist(B)}). W ← S`,
+      W,
+    });
+
+    let prev = cloneSet(S);
+    for (let i = 1; i <= k; i++) {
+      rounds++;
+      const Wi = new Set<NodeId>();
+      prev.forEach((u) => {
+        for (const { v, w } of adj[u] ?? []) {
+          const { cand, accepted } = relax(u, v, w);
+          if (accepted && cand < B) Wi.add(v);
+        }
+      });
+      Wi.forEach((v) => W.add(v));
+      push({
+        kind: "find-pivots",
+        line: "pivots.grow",
+        description: `Level ${l}: FindPivots round ${i}/${k}: W_${i} = ${fmtSet(
+          Wi
+        )}; |W| = ${W.size}`,
+        W,
+        forest: forestOf(W),
+      });
+      if (W.size > k * S.size) {
+        push({
+          kind: "find-pivots",
+          line: "pivots.big",
+          description: `Level ${l}: |W| = ${W.size} > k|S| = ${
+            k * S.size
+          }. P ← S`,
+          P: S,
+          W,
+        });
+        return { P: cloneSet(S), W };
+      }
+      prev = Wi;
+    }
+
+    const forest = forestOf(W);
+    const P = new Set(Array.from(S).filter((x) => treeSize(forest, x) >= k));
+    push({
+      kind: "find-pivots",
+      line: "pivots.done",
+      description: `Level ${l}: FindPivots done. P = ${fmtSet(
+        P
+      )} (roots whose trees in F have ≥ ${k} vertices)`,
+      P,
+      W,
+      forest,
+    });
+    return { P, W };
+  };
+
+  // Algorithm 2: a Dijkstra run from S that stops after k + 1 extractions.
+  const baseCase = (B: number, S: Set<NodeId>) => {
+    const H: { id: NodeId; d: number }[] = Array.from(S).map((x) => ({
+      id: x,
+      d: dist[x],
+    }));
+    const extracted = new Set<NodeId>();
+    const U0: NodeId[] = [];
+    const minIndex = () => {
+      let minIdx = -1;
+      for (let i = 0; i < H.length; i++) {
+        if (extracted.has(H[i].id)) continue;
+        if (minIdx >= 0) metrics.comparisons++;
+        if (minIdx < 0 || H[i].d < H[minIdx].d) minIdx = i;
+      }
+      return minIdx;
+    };
+    const waiting = () =>
+      new Set(H.filter((e) => !extracted.has(e.id)).map((e) => e.id));
+
+    while (true) {
+      const minIdx = minIndex();
+      if (minIdx < 0) break;
+      if (U0.length >= k + 1) {
+        // Keep going only while every extracted vertex shares one distance;
+        // otherwise U = {v : dist(v) < B′} would come back empty.
+        const d0 = dist[U0[0]];
+        if (dist[U0[U0.length - 1]] !== d0 || H[minIdx].d !== d0) break;
+      }
+      const { id: u } = H.splice(minIdx, 1)[0];
+      extracted.add(u);
+      U0.push(u);
+      metrics.extractions++;
+      heap = waiting();
+      push({
+        kind: "base-case",
+        line: "base.extract",
+        description: `BaseCase extract ${u} (|U₀| = ${U0.length})`,
+        current: u,
+      });
+
+      for (const { v, w } of adj[u] ?? []) {
+        const { cand, accepted, improved } = relax(u, v, w);
+        const usable = accepted && cand < B && !extracted.has(v);
+        if (usable) H.push({ id: v, d: cand });
+        heap = waiting();
+        push({
+          kind: improved ? "relax" : "relax-noop",
+          line: usable ? "base.update" : "base.test",
+          description: usable
+            ? `BaseCase relax (${u} → ${v}, w=${w}): dist(${v}) ← ${cand}`
+            : `BaseCase relax (${u} → ${v}): no improvement (or ≥ B)`,
+          current: u,
+          relaxing: { u, v, w, improved },
+        });
+      }
+    }
+
+    heap = undefined;
+    if (U0.length <= k) return { Bp: B, U: new Set(U0) };
+    const Bp = Math.max(...U0.map((v) => dist[v]));
+    const U = new Set(U0.filter((v) => dist[v] < Bp));
+    if (U.size > 0) return { Bp, U };
+    const next = minIndex();
+    return { Bp: next < 0 ? B : H[next].d, U: new Set(U0) };
+  };
+
+  // Algorithm 3.
+  const bmssp = (
+    l: number,
+    B: number,
+    S: Set<NodeId>
+  ): { Bp: number; U: Set<NodeId> } => {
+    const frame: BmsspFrame = {
+      id: nextCallId++,
+      level: l,
+      B,
+      S: cloneSet(S),
+      U: new Set<NodeId>(),
+    };
+    stack.push(frame);
+    if (l === 0) heap = cloneSet(S); // BaseCase starts with H = S
+    push({
+      kind: "call",
+      line: l === 0 ? "bmssp.base" : "bmssp",
+      description: `BMSSP(l=${l}, B=${fmtDist(B)}, S=${fmtSet(S)})`,
+    });
+
+    let result: { Bp: number; U: Set<NodeId> };
+    if (l === 0) {
+      result = baseCase(B, S);
+    } else {
+      const { P, W } = findPivots(l, B, S);
+      frame.P = P;
+      const D = createBlockList(Math.pow(2, (l - 1) * t), B);
+      lists.set(frame.id, D);
+      P.forEach((x) => D.insert(x, dist[x]));
+      const U = frame.U;
+      const cap = k * Math.pow(2, l * t);
+      let Bp = B;
+      let i = 0;
+
+      while (U.size < cap && D.size > 0) {
+        i++;
+        const { x: Bi, S: pulled } = D.pull();
+        const Si = new Set(pulled);
+        chunks++;
+        metrics.extractions += Si.size;
+        push({
+          kind: "call",
+          line: "bmssp.pull",
+          description: `Level ${l}: Pull #${i} → S_${i} = ${fmtSet(
+            Si
+          )}, B_${i} = ${fmtDist(Bi)}`,
+        });
+
+        const sub = bmssp(l - 1, Bi, Si);
+        sub.U.forEach((x) => U.add(x));
+        Bp = sub.Bp;
+
+        const K: { key: NodeId; value: number }[] = [];
+        for (const u of Array.from(sub.U)) {
+          for (const { v, w } of adj[u] ?? []) {
+            const { cand, accepted, improved } = relax(u, v, w);
+            let where = "";
+            let line = "bmssp.relax";
+            if (accepted && cand >= Bi && cand < B) {
+              D.insert(v, cand);
+              where = "Insert into D";
+              line = "bmssp.insert";
+            } else if (accepted && cand >= sub.Bp && cand < Bi) {
+              K.push({ key: v, value: cand });
+              where = "add to K";
+              line = "bmssp.k";
+            }
+            push({
+              kind: improved ? "relax" : "relax-noop",
+              line,
+              description: where
+                ? `Level ${l} relax (${u} → ${v}, w=${w}): dist(${v}) = ${cand}; ${where}`
+                : `Level ${l} relax (${u} → ${v}): no improvement (or outside [B′_${i}, B))`,
+              current: u,
+              relaxing: { u, v, w, improved },
+            });
+          }
+        }
+
+        Si.forEach((x) => {
+          if (dist[x] >= sub.Bp && dist[x] < Bi)
+            K.push({ key: x, value: dist[x] });
+        });
+        D.batchPrepend(K);
+        push({
+          kind: "chunk-end",
+          line: "bmssp.prepend",
+          description: `Level ${l}: BatchPrepend ${fmtSet(
+            K.map((e) => e.key)
+          )}; |U| = ${U.size}`,
+          Bp: sub.Bp,
+        });
+      }
+
+      const finalBp = Math.min(Bp, B);
+      W.forEach((x) => {
+        if (dist[x] < finalBp) U.add(x);
+      });
+      result = { Bp: finalBp, U };
+      lists.delete(frame.id);
+    }
+
+    complete(result.U);
+    frame.U = result.U;
+    frame.Bp = result.Bp;
+    frame.returned = cloneSet(result.U);
+    push({
+      kind: "chunk-end",
+      line:
+        l > 0 ? "bmssp.return" : result.Bp === B ? "base.small" : "base.split",
+      description: `Return from BMSSP(l=${l}): B′ = ${fmtDist(
+        result.Bp
+      )}, U = ${fmtSet(result.U)}`,
+      Uchunk: result.U,
+      Bp: result.Bp,
+    });
+    stack.pop();
+    return result;
+  };
+
+  push({
+    kind: "init",
+    line: "main.init",
+    description: `Init: dist(${src}) = 0; k=${k}, t=${t}, L=${L}`,
+    level: L,
+    B: Infinity,
+    S: new Set([src]),
+  });
+
+  const top = bmssp(L, Infinity, new Set([src]));
+  push({
+    kind: "done",
+    line: "main.done",
+    description: `Done: B′ = ${fmtDist(top.Bp)}, ${
+      top.U.size
+    } vertices complete`,
+    Uchunk: top.U,
+    level: L,
+    B: Infinity,
+    Bp: top.Bp,
+  });
+
+  return steps;
+}
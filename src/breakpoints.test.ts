@@ -0,0 +1,60 @@
+import { runPaperSteps } from "./bmssp";
+import { Breakpoint, breakpointHit, firstHit } from "./breakpoints";
+import { runDijkstraSteps } from "./dijkstra";
+import { PaperSnapshot, StepSnapshot, generateGraph } from "./graph";
+
+// Steps (as indices of `next`) where the breakpoint fires.
+function hitsOf(bp: Breakpoint, steps: StepSnapshot[]) {
+  return steps
+    .map((s, i) => (i > 0 && breakpointHit(bp, steps[i - 1], s) ? i : -1))
+    .filter((i) => i >= 0);
+}
+
+describe("breakpoints", () => {
+  const g = generateGraph(12, 0.3, 7);
+  const dijkstra = runDijkstraSteps(g, "0");
+  const bmssp = runPaperSteps(g, "0") as PaperSnapshot[];
+
+  it("fires once, on the step that settles the node", () => {
+    const last = dijkstra[dijkstra.length - 1];
+    const v = Array.from(last.settled).find((x) => x !== "0")!;
+    const hits = hitsOf({ kind: "settled", node: v }, dijkstra);
+    expect(hits).toHaveLength(1);
+    expect(dijkstra[hits[0]].kind).toBe("extract");
+    expect(dijkstra[hits[0]].current).toBe(v);
+  });
+
+  it("fires on improving relaxations into v and on a given edge", () => {
+    const e = g.edges[0];
+    hitsOf({ kind: "dist-decrease", node: e.target }, dijkstra).forEach((i) =>
+      expect(dijkstra[i].relaxing).toMatchObject({
+        v: e.target,
+        improved: true,
+      })
+    );
+    hitsOf({ kind: "relax-edge", u: e.source, v: e.target }, dijkstra).forEach(
+      (i) => expect(dijkstra[i].kind).toMatch(/^relax/)
+    );
+  });
+
+  it("tracks the BMSSP level and bound", () => {
+    const levels = hitsOf({ kind: "level-change" }, bmssp);
+    expect(levels.length).toBeGreaterThan(0);
+    levels.forEach((i) => expect(bmssp[i].level).not.toBe(bmssp[i - 1].level));
+    hitsOf({ kind: "bound-below", value: 5 }, bmssp).forEach((i) => {
+      expect(bmssp[i - 1].B!).toBeGreaterThanOrEqual(5);
+      expect(bmssp[i].B!).toBeLessThan(5);
+    });
+    // no level or bound on Dijkstra snapshots
+    expect(hitsOf({ kind: "level-change" }, dijkstra)).toEqual([]);
+  });
+
+  it("reports the first breakpoint that fires", () => {
+    const bps: Breakpoint[] = [
+      { kind: "level-change" },
+      { kind: "settled", node: "0" },
+    ];
+    expect(firstHit(bps, dijkstra[0], dijkstra[1])).toEqual(bps[1]);
+    expect(firstHit(bps, dijkstra[1], dijkstra[2])).toBeUndefined();
+  });
+});
@@ -0,0 +1,75 @@
+import { NodeId, PaperSnapshot, StepSnapshot, fmtDist } from "./graph";
+
+// ---------------- Breakpoints ----------------
+// Conditions checked on each step playback takes; a breakpoint fires on the
+// step where its condition becomes true, comparing it with the one before.
+export type Breakpoint =
+  | { kind: "settled"; node: NodeId }
+  | { kind: "dist-decrease"; node: NodeId }
+  | { kind: "relax-edge"; u: NodeId; v: NodeId }
+  | { kind: "level-change" }
+  | { kind: "bound-below"; value: number };
+
+export type BreakpointKind = Breakpoint["kind"];
+
+export const BREAKPOINT_KINDS: { kind: BreakpointKind; label: string }[] = [
+  { kind: "settled", label: "Node settled" },
+  { kind: "dist-decrease", label: "dist(v) decreases" },
+  { kind: "relax-edge", label: "Edge relaxed" },
+  { kind: "level-change", label: "BMSSP level changes" },
+  { kind: "bound-below", label: "B drops below" },
+];
+
+export function describeBreakpoint(bp: Breakpoint): string {
+  switch (bp.kind) {
+    case "settled":
+      return `${bp.node} settled`;
+    case "dist-decrease":
+      return `dist(${bp.node}) decreases`;
+    case "relax-edge":
+      return `relax ${bp.u} → ${bp.v}`;
+    case "level-change":
+      return "level changes";
+    case "bound-below":
+      return `B < ${fmtDist(bp.value)}`;
+  }
+}
+
+// Level and B only exist on BMSSP snapshots; elsewhere they never fire.
+export function breakpointHit(
+  bp: Breakpoint,
+  prev: StepSnapshot,
+  next: StepSnapshot
+): boolean {
+  const p = prev as Partial<PaperSnapshot>;
+  const n = next as Partial<PaperSnapshot>;
+  switch (bp.kind) {
+    case "settled":
+      return !prev.settled.has(bp.node) && next.settled.has(bp.node);
+    case "dist-decrease":
+      return (
+        (next.dist[bp.node] ?? Infinity) < (prev.dist[bp.node] ?? Infinity)
+      );
+    case "relax-edge":
+      return next.relaxing?.u === bp.u && next.relaxing?.v === bp.v;
+    case "level-change":
+      return (
+        p.level !== undefined && n.level !== undefined && p.level !== n.level
+      );
+    case "bound-below":
+      return (
+        p.B !== undefined &&
+        n.B !== undefined &&
+        p.B >= bp.value &&
+        n.B < bp.value
+      );
+  }
+}
+
+export function firstHit(
+  breakpoints: Breakpoint[],
+  prev: StepSnapshot,
+  next: StepSnapshot
+): Breakpoint | undefined {
+  return breakpoints.find((bp) => breakpointHit(bp, prev, next));
+}
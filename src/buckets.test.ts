@@ -0,0 +1,71 @@
+import {
+  DELTA_MAX,
+  DELTA_MIN,
+  runDeltaSteppingSteps,
+  runDialSteps,
+} from "./buckets";
+import { runDijkstraSteps } from "./dijkstra";
+import { generateGraph } from "./graph";
+
+const finalDist = (steps: { dist: Record<string, number> }[]) =>
+  steps[steps.length - 1].dist;
+
+describe("Dial's algorithm", () => {
+  it("matches Dijkstra on random graphs", () => {
+    for (let seed = 1; seed < 12; seed++) {
+      const g = generateGraph(14, 0.3, seed);
+      expect(finalDist(runDialSteps(g, "0"))).toEqual(
+        finalDist(runDijkstraSteps(g, "0"))
+      );
+    }
+  });
+
+  it("stays correct with fractional weights", () => {
+    const g = generateGraph(12, 0.35, 4);
+    g.edges.forEach((e, i) => (e.data = { w: ((i * 7) % 10) / 4 }));
+    expect(finalDist(runDialSteps(g, "0"))).toEqual(
+      finalDist(runDijkstraSteps(g, "0"))
+    );
+  });
+});
+
+describe("Δ-stepping", () => {
+  it.each([0.5, 1, 3, 10])("matches Dijkstra with Δ = %p", (delta) => {
+    for (let seed = 1; seed < 8; seed++) {
+      const g = generateGraph(14, 0.3, seed);
+      expect(finalDist(runDeltaSteppingSteps(g, "0", delta))).toEqual(
+        finalDist(runDijkstraSteps(g, "0"))
+      );
+    }
+  });
+
+  it("relaxes only light edges in light phases and heavy in heavy", () => {
+    const steps = runDeltaSteppingSteps(generateGraph(14, 0.35, 2), "0", 4);
+    const relaxations = steps.filter((s) => s.relaxing);
+    expect(relaxations.length).toBeGreaterThan(0);
+    expect(
+      relaxations.filter(
+        (s) => s.phase !== (s.relaxing!.w <= 4 ? "light" : "heavy")
+      )
+    ).toEqual([]);
+  });
+
+  it("exposes bucket contents matching the frontier", () => {
+    runDeltaSteppingSteps(generateGraph(12, 0.3, 6), "0", 2).forEach((s) => {
+      const inBuckets = s.buckets.flatMap((b) => b.nodes).sort();
+      expect(inBuckets).toEqual(Array.from(s.frontier).sort());
+      s.buckets.forEach((b) =>
+        b.nodes.forEach((v) =>
+          expect(Math.floor(s.dist[v] / s.delta)).toBe(b.index)
+        )
+      );
+    });
+  });
+
+  it("keeps Δ inside its allowed range", () => {
+    const g = generateGraph(10, 0.3, 4);
+    expect(runDeltaSteppingSteps(g, "0", 1e-9)[0].delta).toBe(DELTA_MIN);
+    expect(runDeltaSteppingSteps(g, "0", 1e9)[0].delta).toBe(DELTA_MAX);
+    expect(runDeltaSteppingSteps(g, "0", NaN)[0].delta).toBe(3);
+  });
+});
@@ -0,0 +1,263 @@
+import {
+  BucketSnapshot,
+  Graph,
+  NodeId,
+  StepSnapshot,
+  buildAdjacency,
+  clonePred,
+  cloneSet,
+} from "./graph";
+import { countRelax, createMetrics } from "./metrics";
+
+// ---------------- Bucket queues ----------------
+// Shared state of Dial's algorithm and Δ-stepping: vertex v with tentative
+// distance d sits in bucket ⌊d / Δ⌋, and a bucket is processed only after
+// every lower bucket is empty.
+function createBucketState(graph: Graph, src: NodeId, delta: number) {
+  const dist: Record<NodeId, number> = {};
+  graph.nodes.forEach((n) => (dist[n.id] = Infinity));
+  dist[src] = 0;
+  const pred: Record<NodeId, NodeId | undefined> = {};
+  const settled = new Set<NodeId>();
+  const buckets = new Map<number, Set<NodeId>>([[0, new Set([src])]]);
+  const metrics = createMetrics();
+
+  const indexOf = (d: number) => Math.floor(d / delta);
+
+  const lowest = () => {
+    let best: number | undefined;
+    buckets.forEach((b, i) => {
+      if (b.size === 0) return;
+      if (best !== undefined) metrics.comparisons++;
+      if (best === undefined || i < best) best = i;
+    });
+    return best;
+  };
+
+  // Move v to the bucket of its new distance x.
+  const place = (v: NodeId, x: number) => {
+    if (dist[v] < Infinity) buckets.get(indexOf(dist[v]))?.delete(v);
+    dist[v] = x;
+    const i = indexOf(x);
+    if (!buckets.has(i)) buckets.set(i, new Set());
+    buckets.get(i)!.add(v);
+  };
+
+  const steps: BucketSnapshot[] = [];
+  const push = (
+    snap: Partial<StepSnapshot> &
+      Pick<BucketSnapshot, "kind" | "bucket" | "phase">
+  ) => {
+    const frontier = new Set<NodeId>();
+    const view: BucketSnapshot["buckets"] = [];
+    Array.from(buckets.keys())
+      .sort((a, b) => a - b)
+      .forEach((index) => {
+        const nodes = Array.from(buckets.get(index)!);
+        if (nodes.length === 0) return;
+        nodes.forEach((v) => frontier.add(v));
+        view.push({ index, nodes });
+      });
+    steps.push({
+      step: steps.length,
+      kind: snap.kind,
+      description: snap.description ?? "",
+      current: snap.current,
+      settled: cloneSet(settled),
+      frontier,
+      dist: { ...dist },
+      relaxing: snap.relaxing,
+      pred: clonePred(pred),
+      delta,
+      buckets: view,
+      bucket: snap.bucket,
+      phase: snap.phase,
+      metrics: { ...metrics, queueSize: frontier.size },
+    });
+  };
+
+  return {
+    dist,
+    pred,
+    settled,
+    buckets,
+    metrics,
+    indexOf,
+    lowest,
+    place,
+    steps,
+    push,
+  };
+}
+
+// ---------------- Dial's algorithm ----------------
+// Unit-width buckets (Δ = 1). With integer weights every vertex in a bucket
+// has the same distance, so extraction order inside a bucket does not matter;
+// we still take the smallest so fractional weights stay correct.
+export function runDialSteps(graph: Graph, src: NodeId): BucketSnapshot[] {
+  const adj = buildAdjacency(graph);
+  const st = createBucketState(graph, src, 1);
+  const { dist, pred, settled } = st;
+
+  st.push({
+    kind: "init",
+    description: `Init: dist(${src}) = 0; bucket 0 ← {${src}}`,
+    bucket: 0,
+  });
+
+  for (let i = st.lowest(); i !== undefined; i = st.lowest()) {
+    const bucket = st.buckets.get(i)!;
+    let u = bucket.values().next().value as NodeId;
+    bucket.forEach((x) => {
+      if (x === u) return;
+      st.metrics.comparisons++;
+      if (dist[x] < dist[u]) u = x;
+    });
+    bucket.delete(u);
+    settled.add(u);
+    st.metrics.extractions++;
+    st.push({
+      kind: "extract",
+      description: `Bucket ${i}: extract ${u} (dist = ${dist[u]}); settle ${u}`,
+      current: u,
+      bucket: i,
+    });
+
+    for (const { v, w } of adj[u] ?? []) {
+      const cand = dist[u] + w;
+      const improved = !settled.has(v) && cand < dist[v];
+      if (improved) {
+        st.place(v, cand);
+        pred[v] = u;
+      }
+      countRelax(st.metrics, improved);
+      st.push({
+        kind: improved ? "relax" : "relax-noop",
+        description: improved
+          ? `Relax (${u} → ${v}, w=${w}): dist(${v}) ← ${cand}; move to bucket ${st.indexOf(
+              cand
+            )}`
+          : `Relax (${u} → ${v}, w=${w}): no improvement`,
+        current: u,
+        relaxing: { u, v, w, improved },
+        bucket: i,
+      });
+    }
+  }
+
+  st.push({
+    kind: "done",
+    description: `Done: ${settled.size} vertices settled`,
+  });
+  return st.steps;
+}
+
+// ---------------- Δ-stepping ----------------
+// Meyer & Sanders, sequential form. Edges with w ≤ Δ are light, the rest
+// heavy. Bucket i is emptied by repeated light phases (vertices relaxed back
+// into bucket i are processed again); one heavy phase over everything removed
+// from bucket i then finishes it, and those vertices are final.
+// Δ is kept in [DELTA_MIN, DELTA_MAX]: a tiny or non-numeric Δ would walk
+// through millions of empty buckets.
+export const DELTA_MIN = 0.5;
+export const DELTA_MAX = 20;
+
+export function runDeltaSteppingSteps(
+  graph: Graph,
+  src: NodeId,
+  delta = 3
+): BucketSnapshot[] {
+  delta = Number.isFinite(delta)
+    ? Math.min(DELTA_MAX, Math.max(DELTA_MIN, delta))
+    : 3;
+  const adj = buildAdjacency(graph);
+  const st = createBucketState(graph, src, delta);
+  const { dist, pred, settled } = st;
+
+  const relaxAll = (
+    requests: { u: NodeId; v: NodeId; w: number; cand: number }[],
+    bucket: number,
+    phase: "light" | "heavy"
+  ) => {
+    requests.forEach(({ u, v, w, cand }) => {
+      const improved = cand < dist[v];
+      if (improved) {
+        st.place(v, cand);
+        pred[v] = u;
+      }
+      countRelax(st.metrics, improved);
+      st.push({
+        kind: improved ? "relax" : "relax-noop",
+        description: improved
+          ? `Bucket ${bucket} ${phase}: relax (${u} → ${v}, w=${w}): dist(${v}) ← ${cand}; move to bucket ${st.indexOf(
+              cand
+            )}`
+          : `Bucket ${bucket} ${phase}: relax (${u} → ${v}, w=${w}): no improvement`,
+        current: u,
+        relaxing: { u, v, w, improved },
+        bucket,
+        phase,
+      });
+    });
+  };
+
+  // Requests are generated for the whole set before any is applied, as in
+  // the parallel formulation.
+  const requests = (from: NodeId[], light: boolean) =>
+    from.flatMap((u) =>
+      (adj[u] ?? [])
+        .filter(({ w }) => (light ? w <= delta : w > delta))
+        .map(({ v, w }) => ({ u, v, w, cand: dist[u] + w }))
+    );
+
+  st.push({
+    kind: "init",
+    description: `Init: Δ = ${delta}; dist(${src}) = 0; bucket 0 ← {${src}}`,
+    bucket: 0,
+  });
+
+  for (let i = st.lowest(); i !== undefined; i = st.lowest()) {
+    const removed = new Set<NodeId>();
+    const bucket = st.buckets.get(i)!;
+    while (bucket.size > 0) {
+      const batch = Array.from(bucket);
+      bucket.clear();
+      batch.forEach((u) => removed.add(u));
+      st.metrics.extractions += batch.length;
+      st.push({
+        kind: "phase",
+        description: `Bucket ${i} light phase: remove {${batch.join(
+          ", "
+        )}}; R = {${Array.from(removed).join(", ")}}`,
+        bucket: i,
+        phase: "light",
+      });
+      relaxAll(requests(batch, true), i, "light");
+    }
+
+    st.push({
+      kind: "phase",
+      description: `Bucket ${i} heavy phase: relax heavy edges (w > ${delta}) out of R = {${Array.from(
+        removed
+      ).join(", ")}}`,
+      bucket: i,
+      phase: "heavy",
+    });
+    relaxAll(requests(Array.from(removed), false), i, "heavy");
+
+    removed.forEach((u) => settled.add(u));
+    st.push({
+      kind: "extract",
+      description: `Bucket ${i} done: settle {${Array.from(removed).join(
+        ", "
+      )}}`,
+      bucket: i,
+    });
+  }
+
+  st.push({
+    kind: "done",
+    description: `Done: ${settled.size} vertices settled`,
+  });
+  return st.steps;
+}
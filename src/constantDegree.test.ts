@@ -0,0 +1,64 @@
+import { runPaperSteps } from "./bmssp";
+import { mapSnapshotBack, toConstantDegree } from "./constantDegree";
+import { Graph, generateGraph } from "./graph";
+import { referenceDistances } from "./oracle";
+
+function withWeights(graph: Graph, w: (i: number) => number): Graph {
+  return {
+    nodes: graph.nodes,
+    edges: graph.edges.map((e, i) => ({
+      ...e,
+      label: String(w(i)),
+      data: { w: w(i) },
+    })),
+  };
+}
+
+describe("toConstantDegree", () => {
+  it("bounds in- and out-degree by 2", () => {
+    const { graph } = toConstantDegree(generateGraph(14, 0.4, 3));
+    const indeg: Record<string, number> = {};
+    const outdeg: Record<string, number> = {};
+    graph.edges.forEach((e) => {
+      outdeg[e.source] = (outdeg[e.source] ?? 0) + 1;
+      indeg[e.target] = (indeg[e.target] ?? 0) + 1;
+    });
+    graph.nodes.forEach((n) => {
+      expect(indeg[n.id] ?? 0).toBeLessThanOrEqual(2);
+      expect(outdeg[n.id] ?? 0).toBeLessThanOrEqual(2);
+    });
+  });
+
+  it("maps final distances and predecessors back to original ids", () => {
+    for (let seed = 1; seed < 15; seed++) {
+      const g = generateGraph(10, 0.25, seed);
+      const t = toConstantDegree(g);
+      const plain = runPaperSteps(g, "0");
+      const split = runPaperSteps(t.graph, t.entry["0"]);
+      const mapped = mapSnapshotBack(split[split.length - 1], t);
+      const last = plain[plain.length - 1];
+      expect(mapped.dist).toEqual(last.dist);
+      g.nodes.forEach((n) => {
+        const p = mapped.pred[n.id];
+        if (p === undefined) return;
+        const e = g.edges.find((x) => x.source === p && x.target === n.id);
+        expect(mapped.dist[p] + e!.data!.w).toBe(mapped.dist[n.id]);
+      });
+    }
+  });
+
+  // The cycles are all zero-weight, so BMSSP meets long runs of equal
+  // distances here even when the input has none.
+  it("runs BMSSP on the split graph with zero and half weights", () => {
+    [81, 111, 5, 42, 97].forEach((seed) => {
+      const g = withWeights(
+        generateGraph(8 + (seed % 30), 0.15 + (seed % 5) * 0.05, seed),
+        (i) => (i % 3 === 0 ? 0 : (i % 7) / 2)
+      );
+      const t = toConstantDegree(g);
+      const split = runPaperSteps(t.graph, t.entry["0"]);
+      const mapped = mapSnapshotBack(split[split.length - 1], t);
+      expect(mapped.dist).toEqual(referenceDistances(g, "0").dist);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { MarkerType, Position } from "@xyflow/react";
+import {
+  Graph,
+  NodeId,
+  RFEdge,
+  RFNode,
+  StepSnapshot,
+  isBucketSnapshot,
+  isPaperSnapshot,
+} from "./graph";
+
+// ---------------- Constant-degree transformation ----------------
+// Section 2 of the paper: every vertex v becomes a zero-weight cycle with one
+// vertex x(v, w) per distinct in- or out-neighbour w, and an edge (u, v) of
+// weight c becomes x(u, v) → x(v, u) with weight c. Every new vertex then has
+// in- and out-degree at most 2, and d(x(v, ·)) = d(v) for all cycle vertices.
+
+export interface DegreeTransform {
+  graph: Graph; // split vertices only; this is what the engines run on
+  groups: RFNode[]; // one ReactFlow group node per original vertex
+  origin: Record<NodeId, NodeId>; // split vertex → original vertex
+  slots: Record<NodeId, NodeId[]>; // original vertex → its cycle, in order
+  entry: Record<NodeId, NodeId>; // original vertex → first cycle vertex
+}
+
+export function groupId(v: NodeId) {
+  return `group:${v}`;
+}
+
+export function toConstantDegree(graph: Graph): DegreeTransform {
+  const neighbours: Record<NodeId, NodeId[]> = {};
+  graph.nodes.forEach((n) => (neighbours[n.id] = []));
+  const addNeighbour = (v: NodeId, w: NodeId) => {
+    if (neighbours[v] && !neighbours[v].includes(w)) neighbours[v].push(w);
+  };
+  graph.edges.forEach((e) => {
+    addNeighbour(e.source, e.target);
+    addNeighbour(e.target, e.source);
+  });
+
+  const origin: Record<NodeId, NodeId> = {};
+  const slots: Record<NodeId, NodeId[]> = {};
+  const entry: Record<NodeId, NodeId> = {};
+  const slotOf: Record<string, NodeId> = {}; // `${v}|${w}` → x(v, w)
+  const nodes: RFNode[] = [];
+  const groups: RFNode[] = [];
+  const edges: RFEdge[] = [];
+
+  graph.nodes.forEach((n) => {
+    const around = neighbours[n.id].length > 0 ? neighbours[n.id] : [""];
+    slots[n.id] = around.map((w, i) => {
+      const id = `${n.id}#${i}`;
+      origin[id] = n.id;
+      slotOf[`${n.id}|${w}`] = id;
+      nodes.push({
+        id,
+        position: { x: 0, y: 0 },
+        data: { label: `${n.data.label}.${i}`, status: "unseen" },
+        parentId: groupId(n.id),
+        extent: "parent",
+        sourcePosition: Position.Right,
+        targetPosition: Position.Left,
+      });
+      return id;
+    });
+    entry[n.id] = slots[n.id][0];
+    groups.push({
+      id: groupId(n.id),
+      type: "group",
+      position: { ...n.position }, // for layouts that keep file positions
+      data: { label: n.data.label },
+      style: {
+        background: "rgba(241,245,249,0.6)",
+        border: "1px dashed #94a3b8",
+        borderRadius: 12,
+      },
+    });
+
+    const cycle = slots[n.id];
+    if (cycle.length < 2) return;
+    cycle.forEach((x, i) => {
+      const y = cycle[(i + 1) % cycle.length];
+      edges.push({
+        id: `cycle:${x}->${y}`,
+        source: x,
+        target: y,
+        label: "0",
+        data: { w: 0 },
+        markerEnd: { type: MarkerType.ArrowClosed, width: 12, height: 12 },
+        style: { strokeDasharray: "3 3" },
+      });
+    });
+  });
+
+  graph.edges.forEach((e) => {
+    const x = slotOf[`${e.source}|${e.target}`];
+    const y = slotOf[`${e.target}|${e.source}`];
+    if (x === undefined || y === undefined) return;
+    edges.push({ ...e, source: x, target: y });
+  });
+
+  return { graph: { nodes, edges }, groups, origin, slots, entry };
+}
+
+// Collapses a snapshot of the transformed graph onto the original vertices:
+// dist(v) is the best cycle vertex, pred(v) is the original vertex the cycle
+// was entered from, and v counts as settled once any of its cycle vertices is.
+export function mapSnapshotBack<T extends StepSnapshot>(
+  snap: T,
+  t: DegreeTransform
+): T {
+  const toOrigin = (s?: Set<NodeId>) =>
+    s && new Set(Array.from(s).map((x) => t.origin[x] ?? x));
+
+  const dist: Record<NodeId, number> = {};
+  const pred: Record<NodeId, NodeId | undefined> = {};
+  const settled = new Set<NodeId>();
+  const frontier = new Set<NodeId>();
+  Object.keys(t.slots).forEach((v) => {
+    const cycle = t.slots[v];
+    let best = cycle[0];
+    cycle.forEach((x) => {
+      if (snap.dist[x] < snap.dist[best]) best = x;
+    });
+    dist[v] = snap.dist[best] ?? Infinity;
+
+    let x: NodeId | undefined = best;
+    const seen = new Set<NodeId>();
+    while (x !== undefined && !seen.has(x)) {
+      seen.add(x);
+      const p: NodeId | undefined = snap.pred[x];
+      if (p !== undefined && t.origin[p] !== v) {
+        pred[v] = t.origin[p];
+        break;
+      }
+      x = p;
+    }
+
+    if (cycle.some((y) => snap.settled.has(y))) settled.add(v);
+    else if (cycle.some((y) => snap.frontier.has(y))) frontier.add(v);
+  });
+
+  const out: T = {
+    ...snap,
+    current: snap.current && t.origin[snap.current],
+    dist,
+    pred,
+    settled,
+    frontier,
+    relaxing: snap.relaxing && {
+      ...snap.relaxing,
+      u: t.origin[snap.relaxing.u],
+      v: t.origin[snap.relaxing.v],
+    },
+  };
+  if (isPaperSnapshot(out)) {
+    out.S = toOrigin(out.S)!;
+    out.P = toOrigin(out.P);
+    out.Uchunk = toOrigin(out.Uchunk);
+    out.W = toOrigin(out.W);
+    out.H = toOrigin(out.H);
+  }
+  if (isBucketSnapshot(out))
+    out.buckets = out.buckets.map(({ index, nodes }) => ({
+      index,
+      nodes: Array.from(toOrigin(new Set(nodes))!),
+    }));
+  return out;
+}
@@ -0,0 +1,108 @@
+import {
+  Graph,
+  NodeId,
+  StepSnapshot,
+  buildAdjacency,
+  clonePred,
+  cloneSet,
+} from "./graph";
+import { countRelax, createMetrics } from "./metrics";
+import { QueueKind, createPriorityQueue } from "./priorityQueues";
+
+// ---------------- Dijkstra steps ----------------
+export function runDijkstraSteps(
+  graph: Graph,
+  src: NodeId,
+  queue: QueueKind = "binary"
+): StepSnapshot[] {
+  const { nodes } = graph;
+  const adj = buildAdjacency(graph);
+
+  const dist: Record<NodeId, number> = {};
+  nodes.forEach((n) => (dist[n.id] = Infinity));
+  dist[src] = 0;
+
+  const pred: Record<NodeId, NodeId | undefined> = {};
+
+  const settled = new Set<NodeId>();
+  const frontier = new Set<NodeId>([src]);
+  const pq = createPriorityQueue(queue);
+  pq.insert(src, 0);
+  const metrics = createMetrics();
+
+  const steps: StepSnapshot[] = [];
+  let step = 0;
+  const pushStep = (
+    snap: Partial<StepSnapshot> & Pick<StepSnapshot, "kind">
+  ) => {
+    const ops = pq.counters();
+    steps.push({
+      step: step++,
+      kind: snap.kind,
+      description: snap.description ?? "",
+      current: snap.current,
+      settled: cloneSet(settled),
+      frontier: cloneSet(frontier),
+      dist: { ...dist },
+      relaxing: snap.relaxing,
+      pred: clonePred(pred),
+      line: snap.line,
+      ops,
+      metrics: {
+        ...metrics,
+        extractions: ops.extractMin,
+        comparisons: ops.comparisons,
+        queueSize: pq.size,
+      },
+    });
+  };
+
+  pushStep({
+    kind: "init",
+    line: "dijkstra.init",
+    description: `Init: dist(${src}) = 0; PQ ← {${src}}; frontier ← {${src}}`,
+  });
+
+  while (pq.size > 0) {
+    const { id: u } = pq.extractMin()!;
+
+    settled.add(u);
+    frontier.delete(u);
+    pushStep({
+      kind: "extract",
+      line: "dijkstra.extract",
+      description: `Extract-min: settle ${u}`,
+      current: u,
+    });
+
+    for (const { v, w } of adj[u] ?? []) {
+      const cand = dist[u] + w;
+      const improved = cand < dist[v];
+      let op = "";
+      if (improved) {
+        dist[v] = cand;
+        pred[v] = u;
+        if (pq.has(v)) {
+          pq.decreaseKey(v, cand);
+          op = "decrease-key";
+        } else {
+          pq.insert(v, cand);
+          op = "insert";
+        }
+        frontier.add(v);
+      }
+      countRelax(metrics, improved);
+      pushStep({
+        kind: improved ? "relax" : "relax-noop",
+        line: improved ? "dijkstra.update" : "dijkstra.test",
+        description: improved
+          ? `Relax (${u} → ${v}, w=${w}): dist(${v}) ← ${cand} (${op})`
+          : `Relax (${u} → ${v}, w=${w}): no improvement`,
+        current: u,
+        relaxing: { u, v, w, improved },
+      });
+    }
+  }
+
+  return steps;
+}
@@ -0,0 +1,54 @@
+import { runDijkstraSteps } from "./dijkstra";
+import {
+  GENERATORS,
+  clampParam,
+  defaultParams,
+  getGenerator,
+} from "./generators";
+
+describe.each(GENERATORS.map((g) => g.id))("%s generator", (id) => {
+  const gen = getGenerator(id);
+
+  it("is reproducible from the seed", () => {
+    const a = gen.build(defaultParams(gen), 7);
+    const b = gen.build(defaultParams(gen), 7);
+    expect(a).toEqual(b);
+  });
+
+  it("produces valid ids and positive weights", () => {
+    const g = gen.build(defaultParams(gen), 3);
+    const ids = new Set(g.nodes.map((n) => n.id));
+    expect(ids.size).toBe(g.nodes.length);
+    expect(ids.has("0")).toBe(true);
+    g.edges.forEach((e) => {
+      expect(ids.has(e.source) && ids.has(e.target)).toBe(true);
+      expect(e.data!.w).toBeGreaterThan(0);
+    });
+    expect(new Set(g.edges.map((e) => e.id)).size).toBe(g.edges.length);
+  });
+});
+
+it("structured families reach every vertex from 0", () => {
+  GENERATORS.filter((g) => g.id !== "random").forEach((gen) => {
+    const g = gen.build(defaultParams(gen), 11);
+    const steps = runDijkstraSteps(g, "0");
+    const dist = steps[steps.length - 1].dist;
+    expect(Object.values(dist)).not.toContain(Infinity);
+  });
+});
+
+it("adversarial family forces a decrease-key for every later vertex", () => {
+  const n = 9;
+  const g = getGenerator("adversarial-heap").build({ n }, 1);
+  const steps = runDijkstraSteps(g, "0");
+  const ops = steps[steps.length - 1].ops!;
+  expect(ops.insert).toBe(n - 1 + 1);
+  expect(ops.decreaseKey).toBe(((n - 1) * (n - 2)) / 2);
+});
+
+it("clamps restored parameters to their declared range", () => {
+  const [n, density] = getGenerator("random").params;
+  expect(clampParam(n, 1e9)).toBe(n.max);
+  expect(clampParam(n, -4)).toBe(n.min);
+  expect(clampParam(density, 0.3)).toBe(0.3);
+});
@@ -0,0 +1,294 @@
+import { MarkerType, Position } from "@xyflow/react";
+import { Graph, RFEdge, RFNode, generateGraph, seededRandom } from "./graph";
+
+// ---------------- Graph families ----------------
+// Each family builds a reproducible graph from its own numeric parameters and
+// a seed. Vertex "0" is always the natural source.
+
+export type GeneratorParam = {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+};
+
+export type GeneratorParams = Record<string, number>;
+
+export interface GraphGenerator {
+  id: string;
+  label: string;
+  params: GeneratorParam[];
+  build: (params: GeneratorParams, seed: number) => Graph;
+}
+
+function node(i: number, label = `v${i}`): RFNode {
+  return {
+    id: String(i),
+    position: { x: 0, y: 0 }, // ELK will position
+    data: { label, status: "unseen", dist: i === 0 ? 0 : Infinity },
+    sourcePosition: Position.Right,
+    targetPosition: Position.Left,
+  };
+}
+
+// Collects edges, keeping only the first of any parallel (u, v) pair.
+function edgeList() {
+  const edges: RFEdge[] = [];
+  const seen = new Set<string>();
+  const add = (u: number, v: number, w: number) => {
+    if (u === v || seen.has(`${u}-${v}`)) return;
+    seen.add(`${u}-${v}`);
+    edges.push({
+      id: `${u}-${v}`,
+      source: String(u),
+      target: String(v),
+      label: String(w),
+      data: { w },
+      markerEnd: { type: MarkerType.ArrowClosed, width: 16, height: 16 },
+    });
+  };
+  return { edges, add };
+}
+
+const weight = (rand: () => number) => 1 + Math.floor(rand() * 9);
+
+const random: GraphGenerator = {
+  id: "random",
+  label: "Uniform random",
+  params: [
+    { key: "n", label: "Nodes", min: 5, max: 18, step: 1, default: 10 },
+    {
+      key: "density",
+      label: "Density",
+      min: 0.15,
+      max: 0.6,
+      step: 0.01,
+      default: 0.18,
+    },
+  ],
+  build: ({ n, density }, seed) => generateGraph(n, density, seed),
+};
+
+// Road-like lattice: two-way streets between grid neighbours, plus the odd
+// one-way diagonal.
+const grid: GraphGenerator = {
+  id: "grid",
+  label: "2D grid / lattice",
+  params: [
+    { key: "rows", label: "Rows", min: 2, max: 6, step: 1, default: 3 },
+    { key: "cols", label: "Columns", min: 2, max: 6, step: 1, default: 4 },
+    {
+      key: "diagonals",
+      label: "Diagonal prob.",
+      min: 0,
+      max: 1,
+      step: 0.05,
+      default: 0.2,
+    },
+  ],
+  build: ({ rows, cols, diagonals }, seed) => {
+    const rand = seededRandom(seed);
+    const at = (r: number, c: number) => r * cols + c;
+    const nodes = Array.from({ length: rows * cols }, (_, i) =>
+      node(i, `${Math.floor(i / cols)},${i % cols}`)
+    );
+    const { edges, add } = edgeList();
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        if (c + 1 < cols) {
+          add(at(r, c), at(r, c + 1), weight(rand));
+          add(at(r, c + 1), at(r, c), weight(rand));
+        }
+        if (r + 1 < rows) {
+          add(at(r, c), at(r + 1, c), weight(rand));
+          add(at(r + 1, c), at(r, c), weight(rand));
+        }
+        if (r + 1 < rows && c + 1 < cols && rand() < diagonals)
+          add(at(r, c), at(r + 1, c + 1), weight(rand));
+      }
+    }
+    return { nodes, edges };
+  },
+};
+
+// Source, then `layers` layers of `width` vertices; edges only go forward,
+// mostly to the next layer and occasionally one layer further.
+const layeredDag: GraphGenerator = {
+  id: "layered-dag",
+  label: "Layered DAG",
+  params: [
+    { key: "layers", label: "Layers", min: 2, max: 6, step: 1, default: 4 },
+    { key: "width", label: "Width", min: 1, max: 5, step: 1, default: 3 },
+    { key: "fanout", label: "Fan-out", min: 1, max: 4, step: 1, default: 2 },
+    {
+      key: "skip",
+      label: "Skip prob.",
+      min: 0,
+      max: 1,
+      step: 0.05,
+      default: 0.1,
+    },
+  ],
+  build: ({ layers, width, fanout, skip }, seed) => {
+    const rand = seededRandom(seed);
+    const layer = (l: number) =>
+      l === 0
+        ? [0]
+        : Array.from({ length: width }, (_, i) => 1 + (l - 1) * width + i);
+    const nodes = Array.from({ length: 1 + layers * width }, (_, i) =>
+      node(
+        i,
+        i === 0 ? "s" : `L${Math.floor((i - 1) / width) + 1}.${(i - 1) % width}`
+      )
+    );
+    const { edges, add } = edgeList();
+    for (let l = 0; l < layers; l++) {
+      const here = layer(l);
+      const next = layer(l + 1);
+      // every vertex gets at least one edge from the layer before it
+      next.forEach((v) =>
+        add(here[Math.floor(rand() * here.length)], v, weight(rand))
+      );
+      here.forEach((u) => {
+        for (let k = 0; k < Math.min(fanout, next.length); k++)
+          add(u, next[Math.floor(rand() * next.length)], weight(rand));
+        if (l + 2 <= layers && rand() < skip) {
+          const far = layer(l + 2);
+          add(u, far[Math.floor(rand() * far.length)], weight(rand));
+        }
+      });
+    }
+    return { nodes, edges };
+  },
+};
+
+// Preferential attachment: each new vertex links to `m` existing vertices
+// chosen proportionally to degree; every link is two-way.
+const barabasiAlbert: GraphGenerator = {
+  id: "barabasi-albert",
+  label: "Barabási–Albert",
+  params: [
+    { key: "n", label: "Nodes", min: 5, max: 24, step: 1, default: 12 },
+    { key: "m", label: "Links per node", min: 1, max: 3, step: 1, default: 2 },
+  ],
+  build: ({ n, m }, seed) => {
+    const rand = seededRandom(seed);
+    const nodes = Array.from({ length: n }, (_, i) => node(i));
+    const { edges, add } = edgeList();
+    const ends: number[] = [0]; // vertex repeated once per incident link
+    for (let v = 1; v < n; v++) {
+      const targets = new Set<number>();
+      while (targets.size < Math.min(m, v))
+        targets.add(ends[Math.floor(rand() * ends.length)]);
+      targets.forEach((u) => {
+        add(u, v, weight(rand));
+        add(v, u, weight(rand));
+        ends.push(u, v);
+      });
+    }
+    return { nodes, edges };
+  },
+};
+
+// A cheap long path 0 → 1 → … → n-1, plus forward shortcuts that are slightly
+// more (or less) expensive than the stretch they skip.
+const pathWithShortcuts: GraphGenerator = {
+  id: "path-shortcuts",
+  label: "Long path + shortcuts",
+  params: [
+    { key: "n", label: "Nodes", min: 5, max: 24, step: 1, default: 14 },
+    {
+      key: "shortcuts",
+      label: "Shortcuts",
+      min: 0,
+      max: 12,
+      step: 1,
+      default: 4,
+    },
+  ],
+  build: ({ n, shortcuts }, seed) => {
+    const rand = seededRandom(seed);
+    const nodes = Array.from({ length: n }, (_, i) => node(i));
+    const { edges, add } = edgeList();
+    const hop: number[] = [];
+    for (let i = 0; i + 1 < n; i++) {
+      hop.push(1 + Math.floor(rand() * 3));
+      add(i, i + 1, hop[i]);
+    }
+    for (let k = 0; k < shortcuts; k++) {
+      const u = Math.floor(rand() * (n - 2));
+      const v = u + 2 + Math.floor(rand() * (n - u - 2));
+      const span = hop.slice(u, v).reduce((a, b) => a + b, 0);
+      add(u, v, Math.max(1, span + Math.floor(rand() * 5) - 2));
+    }
+    return { nodes, edges };
+  },
+};
+
+const complete: GraphGenerator = {
+  id: "complete",
+  label: "Complete",
+  params: [{ key: "n", label: "Nodes", min: 3, max: 10, step: 1, default: 6 }],
+  build: ({ n }, seed) => {
+    const rand = seededRandom(seed);
+    const nodes = Array.from({ length: n }, (_, i) => node(i));
+    const { edges, add } = edgeList();
+    for (let u = 0; u < n; u++)
+      for (let v = 0; v < n; v++) add(u, v, weight(rand));
+    return { nodes, edges };
+  },
+};
+
+// Worst case for Dijkstra's heap: vertices are settled in order 0, 1, 2, …
+// (dist(i) = i along the unit path), and every newly settled i improves the
+// key of every later vertex j via w(i, j) = n + j − 2i, so the heap holds all
+// unsettled vertices and sees Θ(n²) decrease-keys. The seed only shuffles the
+// order in which each vertex's out-edges are relaxed.
+const adversarialHeap: GraphGenerator = {
+  id: "adversarial-heap",
+  label: "Adversarial (decrease-key)",
+  params: [{ key: "n", label: "Nodes", min: 4, max: 14, step: 1, default: 8 }],
+  build: ({ n }, seed) => {
+    const rand = seededRandom(seed);
+    const nodes = Array.from({ length: n }, (_, i) => node(i));
+    const { edges, add } = edgeList();
+    for (let i = 0; i < n; i++) {
+      const targets = Array.from({ length: n - i - 1 }, (_, k) => i + 1 + k);
+      // shuffle so relaxation order does not follow vertex order
+      for (let k = targets.length - 1; k > 0; k--) {
+        const r = Math.floor(rand() * (k + 1));
+        [targets[k], targets[r]] = [targets[r], targets[k]];
+      }
+      targets.forEach((j) => add(i, j, j === i + 1 ? 1 : n + j - 2 * i));
+    }
+    return { nodes, edges };
+  },
+};
+
+export const GENERATORS: GraphGenerator[] = [
+  random,
+  grid,
+  layeredDag,
+  barabasiAlbert,
+  pathWithShortcuts,
+  complete,
+  adversarialHeap,
+];
+
+export function getGenerator(id: string): GraphGenerator {
+  return GENERATORS.find((g) => g.id === id) ?? GENERATORS[0];
+}
+
+export function defaultParams(gen: GraphGenerator): GeneratorParams {
+  const out: GeneratorParams = {};
+  gen.params.forEach((p) => (out[p.key] = p.default));
+  return out;
+}
+
+// Values from links and saved sessions never went through the sliders; this
+// puts them back inside the declared range.
+export function clampParam(p: GeneratorParam, v: number) {
+  return Math.min(p.max, Math.max(p.min, v));
+}
@@ -0,0 +1,220 @@
+import React from "react";
+import { MarkerType, Position } from "@xyflow/react";
+import { BlockListView } from "./blockList";
+import { StepMetrics } from "./metrics";
+import { QueueCounters } from "./priorityQueues";
+
+export type NodeId = string;
+
+export type RFNodeData = {
+  label: string;
+  dist?: number;
+  status?: "unseen" | "frontier" | "settled" | "current" | "pivot" | "u-set";
+};
+
+export type RFNode = {
+  id: NodeId;
+  type?: string;
+  position: { x: number; y: number };
+  data: RFNodeData;
+  parentId?: NodeId; // ReactFlow group this node is drawn inside
+  extent?: "parent";
+  sourcePosition?: Position;
+  targetPosition?: Position;
+  style?: React.CSSProperties;
+};
+
+export type RFEdge = {
+  id: string;
+  source: NodeId;
+  target: NodeId;
+  label: string;
+  data?: { w: number };
+  markerEnd?: any;
+  style?: React.CSSProperties;
+  animated?: boolean;
+};
+
+export type Graph = {
+  nodes: RFNode[];
+  edges: RFEdge[];
+  startId?: NodeId; // preferred source, as saved in imported JSON
+};
+
+export type Adjacency = Record<NodeId, { v: NodeId; w: number }[]>;
+
+// What a step did; the timeline colors and searches steps by it.
+export type EventKind =
+  | "init"
+  | "extract" // extract-min: a vertex (or a whole bucket) is settled
+  | "relax" // relaxation that improved a distance
+  | "relax-noop" // relaxation that did not
+  | "find-pivots" // FindPivots start, rounds and result
+  | "base-case" // BaseCase extract
+  | "call" // BMSSP call, or Pull of the next chunk
+  | "chunk-end" // BatchPrepend after a chunk, or return with B′
+  | "phase" // bucket phase or Bellman–Ford round
+  | "cycle" // negative cycle found
+  | "done";
+
+export interface StepSnapshot {
+  step: number;
+  kind: EventKind;
+  description: string;
+  current?: NodeId; // extracted/processing vertex u
+  settled: Set<NodeId>;
+  frontier: Set<NodeId>;
+  dist: Record<NodeId, number>;
+  relaxing?: { u: NodeId; v: NodeId; w: number; improved: boolean };
+  pred: Record<NodeId, NodeId | undefined>; // parent pointers for shortest-path tree
+  ops?: QueueCounters; // cumulative priority-queue operations so far
+  metrics?: StepMetrics; // work counters, see metrics.ts
+  line?: string; // pseudocode line being executed, see pseudocode.ts
+}
+
+// One active BMSSP(l, B, S) call as seen from inside a snapshot.
+export interface BmsspFrame {
+  id: number; // call id, unique within a trace
+  level: number;
+  B: number; // input bound
+  S: Set<NodeId>;
+  P?: Set<NodeId>; // pivots from FindPivots (undefined at level 0)
+  U: Set<NodeId>; // vertices completed so far by this call
+  Bp?: number; // B′ once the call has returned
+  returned?: Set<NodeId>; // U once the call has returned
+}
+
+export interface PaperSnapshot extends StepSnapshot {
+  S: Set<NodeId>;
+  P?: Set<NodeId>;
+  Uchunk?: Set<NodeId>;
+  level?: number;
+  B?: number;
+  Bp?: number;
+  W?: Set<NodeId>; // vertices reached so far by FindPivots
+  forest?: { u: NodeId; v: NodeId }[]; // F: every tight edge inside W
+  D?: { level: number; view: BlockListView }; // D of the innermost level ≥ 1 call
+  H?: Set<NodeId>; // BaseCase's heap, while a level-0 call runs
+  stack: BmsspFrame[]; // outermost call first
+}
+
+// Bucket-queue algorithms (Dial, Δ-stepping): bucket i holds tentative
+// distances in [iΔ, (i+1)Δ); Dial is the Δ = 1 case.
+export interface BucketSnapshot extends StepSnapshot {
+  delta: number;
+  buckets: { index: number; nodes: NodeId[] }[]; // non-empty buckets, ascending
+  bucket?: number; // index of the bucket being processed
+  phase?: "light" | "heavy"; // Δ-stepping relaxation phase
+}
+
+// For code that handles any trace but rewrites the extra vertex sets.
+export function isPaperSnapshot(snap: StepSnapshot): snap is PaperSnapshot {
+  return "S" in snap && "stack" in snap;
+}
+
+export function isBucketSnapshot(snap: StepSnapshot): snap is BucketSnapshot {
+  return "buckets" in snap;
+}
+
+export interface BellmanFordSnapshot extends StepSnapshot {
+  round: number; // 0 during init
+  negativeCycle?: NodeId[]; // in edge order, set once a cycle is found
+}
+
+// ---------------- Utilities ----------------
+export function seededRandom(seed: number) {
+  let s = seed >>> 0;
+  return () => {
+    s = (1664525 * s + 1013904223) >>> 0;
+    return s / 0xffffffff;
+  };
+}
+
+export function generateGraph(n = 10, density = 0.18, seed = 42): Graph {
+  const rand = seededRandom(seed);
+  const nodes: RFNode[] = Array.from({ length: n }, (_, i) => ({
+    id: String(i),
+    position: { x: 0, y: 0 }, // ELK will position
+    data: { label: `v${i}`, status: "unseen", dist: i === 0 ? 0 : Infinity },
+    sourcePosition: Position.Right,
+    targetPosition: Position.Left,
+  }));
+
+  const edges: RFEdge[] = [];
+  for (let u = 0; u < n; u++) {
+    for (let v = 0; v < n; v++) {
+      if (u === v) continue;
+      if (rand() < density) {
+        const w = 1 + Math.floor(rand() * 9);
+        edges.push({
+          id: `${u}-${v}`,
+          source: String(u),
+          target: String(v),
+          label: String(w),
+          data: { w },
+          markerEnd: { type: MarkerType.ArrowClosed, width: 16, height: 16 },
+        });
+      }
+    }
+  }
+
+  if (!edges.some((e) => e.source === "0")) {
+    if (n > 1)
+      edges.push({
+        id: `0-1`,
+        source: "0",
+        target: "1",
+        label: "1",
+        data: { w: 1 },
+        markerEnd: { type: MarkerType.ArrowClosed },
+      });
+    if (n > 2)
+      edges.push({
+        id: `0-2`,
+        source: "0",
+        target: "2",
+        label: "4",
+        data: { w: 4 },
+        markerEnd: { type: MarkerType.ArrowClosed },
+      });
+  }
+
+  return { nodes, edges };
+}
+
+export function buildAdjacency(graph: Graph): Adjacency {
+  const adj: Adjacency = {};
+  graph.nodes.forEach((n) => (adj[n.id] = []));
+  graph.edges.forEach((e) =>
+    adj[e.source]?.push({ v: e.target, w: e.data?.w ?? Number(e.label) })
+  );
+  return adj;
+}
+
+// Edges violating the non-negativity precondition of Dijkstra-like engines.
+export function negativeEdges(graph: Graph): RFEdge[] {
+  return graph.edges.filter((e) => (e.data?.w ?? Number(e.label)) < 0);
+}
+
+export function cloneSet<T>(s: Set<T>): Set<T> {
+  return new Set(Array.from(s));
+}
+export function clonePred(
+  pred: Record<NodeId, NodeId | undefined>
+): Record<NodeId, NodeId | undefined> {
+  const out: Record<NodeId, NodeId | undefined> = {};
+  for (const k in pred) out[k] = pred[k];
+  return out;
+}
+
+export function fmtDist(x: number) {
+  return x === Infinity ? "∞" : x;
+}
+
+// Equal distances up to float noise from fractional weights; ∞ only equals ∞.
+const EPS = 1e-9;
+export const sameDist = (a: number, b: number) =>
+  a === b ||
+  (Number.isFinite(a) &&
+    Number.isFinite(b) &&
+    Math.abs(a - b) <= EPS * Math.max(1, Math.abs(a), Math.abs(b)));
@@ -0,0 +1,50 @@
+import { Graph, generateGraph } from "./graph";
+import {
+  addEdge,
+  addNode,
+  deleteEdge,
+  deleteNode,
+  reverseEdge,
+  setWeight,
+} from "./graphEdits";
+
+describe("graph edits", () => {
+  it("adds nodes with fresh ids and leaves the input alone", () => {
+    const g = generateGraph(5, 0.3, 1);
+    const before = JSON.stringify(g);
+    const out = addNode(addNode(g, { x: 1, y: 2 }), { x: 3, y: 4 });
+    expect(out.nodes.map((n) => n.id).slice(-2)).toEqual(["5", "6"]);
+    expect(out.nodes[5].position).toEqual({ x: 1, y: 2 });
+    expect(JSON.stringify(g)).toBe(before);
+  });
+
+  it("deletes a node with its incident edges", () => {
+    const g = generateGraph(6, 0.5, 2);
+    const out = deleteNode(g, "1");
+    expect(out.nodes.some((n) => n.id === "1")).toBe(false);
+    expect(
+      out.edges.filter((e) => e.source === "1" || e.target === "1")
+    ).toEqual([]);
+  });
+
+  it("adds, reweights, reverses and deletes edges", () => {
+    let g: Graph = { nodes: generateGraph(3, 0, 1).nodes, edges: [] };
+    g = addEdge(g, "0", "1", 4);
+    g = addEdge(g, "0", "1", 7); // same pair: reweight
+    g = addEdge(g, "1", "1"); // self-loop ignored
+    expect(g.edges.map((e) => [e.source, e.target, e.data!.w])).toEqual([
+      ["0", "1", 7],
+    ]);
+
+    g = setWeight(g, g.edges[0].id, 2);
+    expect(g.edges[0].label).toBe("2");
+
+    g = reverseEdge(g, g.edges[0].id);
+    expect(g.edges.map((e) => [e.source, e.target, e.data!.w])).toEqual([
+      ["1", "0", 2],
+    ]);
+
+    g = deleteEdge(g, g.edges[0].id);
+    expect(g.edges).toEqual([]);
+  });
+});
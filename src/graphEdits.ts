@@ -0,0 +1,88 @@
+import { MarkerType, Position, XYPosition } from "@xyflow/react";
+import { Graph, NodeId, RFEdge } from "./graph";
+
+// ---------------- Graph edits ----------------
+// Pure operations behind the editor; each returns a new graph and leaves the
+// input untouched so it can sit on the undo stack.
+
+function freshNodeId(graph: Graph): NodeId {
+  const ids = new Set(graph.nodes.map((n) => n.id));
+  let k = graph.nodes.length;
+  while (ids.has(String(k))) k++;
+  return String(k);
+}
+
+function freshEdgeId(graph: Graph, source: NodeId, target: NodeId) {
+  const ids = new Set(graph.edges.map((e) => e.id));
+  let id = `${source}-${target}`;
+  for (let k = 2; ids.has(id); k++) id = `${source}-${target}-${k}`;
+  return id;
+}
+
+export function addNode(graph: Graph, position: XYPosition): Graph {
+  const id = freshNodeId(graph);
+  return {
+    ...graph,
+    nodes: [
+      ...graph.nodes,
+      {
+        id,
+        position,
+        data: { label: `v${id}`, status: "unseen", dist: Infinity },
+        sourcePosition: Position.Right,
+        targetPosition: Position.Left,
+      },
+    ],
+  };
+}
+
+export function deleteNode(graph: Graph, id: NodeId): Graph {
+  return {
+    ...graph,
+    nodes: graph.nodes.filter((n) => n.id !== id),
+    edges: graph.edges.filter((e) => e.source !== id && e.target !== id),
+  };
+}
+
+// A second edge between the same ordered pair only updates the weight.
+export function addEdge(
+  graph: Graph,
+  source: NodeId,
+  target: NodeId,
+  w = 1
+): Graph {
+  if (source === target) return graph;
+  const existing = graph.edges.find(
+    (e) => e.source === source && e.target === target
+  );
+  if (existing) return setWeight(graph, existing.id, w);
+  const edge: RFEdge = {
+    id: freshEdgeId(graph, source, target),
+    source,
+    target,
+    label: String(w),
+    data: { w },
+    markerEnd: { type: MarkerType.ArrowClosed, width: 16, height: 16 },
+  };
+  return { ...graph, edges: [...graph.edges, edge] };
+}
+
+export function setWeight(graph: Graph, edgeId: string, w: number): Graph {
+  return {
+    ...graph,
+    edges: graph.edges.map((e) =>
+      e.id === edgeId ? { ...e, label: String(w), data: { w } } : e
+    ),
+  };
+}
+
+export function reverseEdge(graph: Graph, edgeId: string): Graph {
+  const e = graph.edges.find((x) => x.id === edgeId);
+  if (!e) return graph;
+  const rest = { ...graph, edges: graph.edges.filter((x) => x !== e) };
+  return addEdge(rest, e.target, e.source, e.data?.w ?? Number(e.label));
+}
+
+export function deleteEdge(graph: Graph, edgeId: string): Graph {
+  return { ...graph, edges: graph.edges.filter((e) => e.id !== edgeId) };
+}
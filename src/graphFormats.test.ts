@@ -0,0 +1,84 @@
+import { Graph, generateGraph } from "./graph";
+import {
+  FORMATS,
+  GraphParseError,
+  detectFormat,
+  parseGraph,
+  serializeGraph,
+} from "./graphFormats";
+
+const shape = (g: Graph) => ({
+  nodes: g.nodes.map((n) => [n.id, n.data.label]),
+  edges: g.edges.map((e) => [e.source, e.target, e.data!.w]),
+});
+
+function sample(): Graph {
+  const g = generateGraph(8, 0.3, 5);
+  g.nodes[2].data.label = 'odd, "quoted" <label>';
+  g.nodes[3].id = "x-3";
+  g.nodes[4].id = "node  4";
+  g.nodes[4].data.label = "two  spaces";
+  const renamed: Record<string, string> = { "3": "x-3", "4": "node  4" };
+  g.edges.forEach((e) => {
+    e.source = renamed[e.source] ?? e.source;
+    e.target = renamed[e.target] ?? e.target;
+  });
+  g.edges[0].data = { w: 2.5 };
+  return g;
+}
+
+describe.each(FORMATS.map((f) => f.format))("%s format", (format) => {
+  it("round-trips ids, labels and weights", () => {
+    const g = sample();
+    const text = serializeGraph(g, format);
+    expect(detectFormat(text)).toBe(format);
+    expect(shape(parseGraph(text, format))).toEqual(shape(g));
+  });
+});
+
+describe("detectFormat", () => {
+  it("prefers the file extension", () => {
+    expect(detectFormat("whatever", "road.gr")).toBe("dimacs");
+    expect(detectFormat("{}", "edges.csv")).toBe("csv");
+    expect(detectFormat("", "g.graphml")).toBe("graphml");
+  });
+});
+
+describe("parse errors", () => {
+  const lineOf = (text: string, format: Parameters<typeof parseGraph>[1]) => {
+    try {
+      parseGraph(text, format);
+    } catch (err) {
+      return (err as GraphParseError).line;
+    }
+    return "parsed";
+  };
+
+  it("report the offending line", () => {
+    expect(lineOf("p sp 2 1\nc ok\na 1 3 4\n", "dimacs")).toBe(3);
+    expect(lineOf("a 1 2 3\n", "dimacs")).toBe(1);
+    expect(lineOf("source,target,weight\na,b,1\nb,c,heavy\n", "csv")).toBe(3);
+    expect(
+      lineOf(
+        '<graphml>\n<graph>\n<node id="a"/>\n<edge source="a" target="b"/>\n</graph>\n</graphml>',
+        "graphml"
+      )
+    ).toBe(4);
+    expect(lineOf('{\n  "nodes": [\n  ],,\n}', "json")).toBe(3);
+  });
+
+  it("read plain DIMACS files with numeric ids", () => {
+    const g = parseGraph("c demo\np sp 3 2\na 1 2 5\na 2 3 1\n", "dimacs");
+    expect(shape(g)).toEqual({
+      nodes: [
+        ["1", "1"],
+        ["2", "2"],
+        ["3", "3"],
+      ],
+      edges: [
+        ["1", "2", 5],
+        ["2", "3", 1],
+      ],
+    });
+  });
+});
@@ -0,0 +1,551 @@
+import { MarkerType, Position } from "@xyflow/react";
+import { Graph, NodeId, RFEdge, RFNode } from "./graph";
+
+// ---------------- Graph file formats ----------------
+// Import/export for the Graph card. Besides the ReactFlow-shaped JSON we read
+// and write DIMACS shortest-path files (9th Challenge `.gr`), CSV edge lists
+// and GraphML. Vertex ids and labels survive a round trip in every format;
+// JSON and GraphML also keep node positions.
+
+export type GraphFormat = "json" | "dimacs" | "csv" | "graphml";
+
+export const FORMATS: {
+  format: GraphFormat;
+  label: string;
+  extension: string;
+  mime: string;
+}[] = [
+  {
+    format: "json",
+    label: "JSON",
+    extension: "json",
+    mime: "application/json",
+  },
+  {
+    format: "dimacs",
+    label: "DIMACS .gr",
+    extension: "gr",
+    mime: "text/plain",
+  },
+  { format: "csv", label: "CSV edge list", extension: "csv", mime: "text/csv" },
+  {
+    format: "graphml",
+    label: "GraphML",
+    extension: "graphml",
+    mime: "application/xml",
+  },
+];
+
+export class GraphParseError extends Error {
+  constructor(message: string, public line?: number) {
+    super(line === undefined ? message : `line ${line}: ${message}`);
+    this.name = "GraphParseError";
+  }
+}
+
+function makeNode(id: NodeId, label: string): RFNode {
+  return {
+    id,
+    position: { x: 0, y: 0 }, // laid out after import
+    data: { label, status: "unseen", dist: Infinity },
+    sourcePosition: Position.Right,
+    targetPosition: Position.Left,
+  };
+}
+
+function makeEdge(
+  id: string,
+  source: NodeId,
+  target: NodeId,
+  w: number
+): RFEdge {
+  return {
+    id,
+    source,
+    target,
+    label: String(w),
+    data: { w },
+    markerEnd: { type: MarkerType.ArrowClosed, width: 16, height: 16 },
+  };
+}
+
+const weightOf = (e: RFEdge) => e.data?.w ?? Number(e.label);
+
+// File extension first, then a look at the first meaningful line.
+export function detectFormat(text: string, filename = ""): GraphFormat {
+  const ext = filename.toLowerCase().split(".").pop();
+  if (ext === "json") return "json";
+  if (ext === "gr" || ext === "dimacs") return "dimacs";
+  if (ext === "csv" || ext === "tsv") return "csv";
+  if (ext === "graphml" || ext === "xml") return "graphml";
+
+  const head = text.trimStart();
+  if (head.startsWith("{")) return "json";
+  if (head.startsWith("<")) return "graphml";
+  const first = head.split(/\r?\n/, 1)[0] ?? "";
+  if (/^(c\b|p\s+sp\b|a\s)/.test(first)) return "dimacs";
+  return "csv";
+}
+
+export function parseGraph(text: string, format: GraphFormat): Graph {
+  switch (format) {
+    case "json":
+      return parseJson(text);
+    case "dimacs":
+      return parseDimacs(text);
+    case "csv":
+      return parseCsv(text);
+    case "graphml":
+      return parseGraphml(text);
+  }
+}
+
+export function serializeGraph(graph: Graph, format: GraphFormat): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(graph, null, 2);
+    case "dimacs":
+      return toDimacs(graph);
+    case "csv":
+      return toCsv(graph);
+    case "graphml":
+      return toGraphml(graph);
+  }
+}
+
+// -------- JSON --------
+function parseJson(text: string): Graph {
+  let obj: any;
+  try {
+    obj = JSON.parse(text);
+  } catch (err) {
+    // V8 reports "... in JSON at position N"; turn the offset into a line
+    const pos = /position (\d+)/.exec(String(err))?.[1];
+    throw new GraphParseError(
+      "invalid JSON",
+      pos === undefined
+        ? undefined
+        : text.slice(0, Number(pos)).split("\n").length
+    );
+  }
+  if (!obj || !Array.isArray(obj.nodes) || !Array.isArray(obj.edges))
+    throw new GraphParseError("expected { nodes: [], edges: [] }");
+  const nodes: RFNode[] = obj.nodes.map((n: any, i: number) => ({
+    ...makeNode(String(n.id ?? i), String(n.data?.label ?? `v${i}`)),
+    position: {
+      x: Number(n.position?.x) || 0,
+      y: Number(n.position?.y) || 0,
+    },
+    data: {
+      label: String(n.data?.label ?? `v${i}`),
+      status: "unseen",
+      dist: n.data?.dist ?? (i === 0 ? 0 : Infinity),
+    },
+  }));
+  const edges: RFEdge[] = obj.edges.map((e: any, j: number) => ({
+    ...makeEdge(
+      String(e.id ?? `${e.source}-${e.target}-${j}`),
+      String(e.source),
+      String(e.target),
+      Number(e.data?.w ?? e.label ?? 1)
+    ),
+    label: String(e.label ?? e.data?.w ?? 1),
+  }));
+  return obj.startId === undefined
+    ? { nodes, edges }
+    : { nodes, edges, startId: String(obj.startId) };
+}
+
+// -------- DIMACS (9th Challenge) --------
+// "p sp n m", then m lines "a u v w" over vertices 1..n. Our ids and labels
+// ride along in comment lines "c node <index> <id> <label>", URI-encoded so
+// that spaces inside them survive.
+const decodeField = (s: string) => {
+  try {
+    return decodeURIComponent(s);
+  } catch {
+    return s; // a hand-written comment with a stray %
+  }
+};
+
+function parseDimacs(text: string): Graph {
+  let n = -1;
+  let m = -1;
+  const ids: NodeId[] = [];
+  const labels: string[] = [];
+  const arcs: { u: number; v: number; w: number; line: number }[] = [];
+  const lines = text.split(/\r?\n/);
+
+  lines.forEach((raw, i) => {
+    const line = i + 1;
+    const t = raw.trim();
+    if (t === "") return;
+    const parts = t.split(/\s+/);
+    if (parts[0] === "c") {
+      if (parts[1] === "node" && parts.length >= 4) {
+        const k = Number(parts[2]);
+        ids[k] = decodeField(parts[3]);
+        labels[k] = decodeField(parts.slice(4).join(" ")) || ids[k];
+      }
+      return;
+    }
+    if (parts[0] === "p") {
+      if (n >= 0) throw new GraphParseError("duplicate problem line", line);
+      if (parts[1] !== "sp" || parts.length !== 4)
+        throw new GraphParseError('expected "p sp <n> <m>"', line);
+      n = Number(parts[2]);
+      m = Number(parts[3]);
+      if (!Number.isInteger(n) || !Number.isInteger(m) || n < 0 || m < 0)
+        throw new GraphParseError(
+          "n and m must be non-negative integers",
+          line
+        );
+      return;
+    }
+    if (parts[0] === "a") {
+      if (n < 0) throw new GraphParseError("arc before problem line", line);
+      if (parts.length !== 4)
+        throw new GraphParseError('expected "a <u> <v> <w>"', line);
+      const [u, v, w] = parts.slice(1).map(Number);
+      [u, v].forEach((x) => {
+        if (!Number.isInteger(x) || x < 1 || x > n)
+          throw new GraphParseError(`vertex must be in 1..${n}`, line);
+      });
+      if (!Number.isFinite(w))
+        throw new GraphParseError(`weight "${parts[3]}" is not a number`, line);
+      arcs.push({ u, v, w, line });
+      return;
+    }
+    throw new GraphParseError(`unknown line type "${parts[0]}"`, line);
+  });
+
+  if (n < 0) throw new GraphParseError('missing "p sp <n> <m>" line');
+  if (arcs.length !== m)
+    throw new GraphParseError(
+      `problem line declares ${m} arcs, found ${arcs.length}`,
+      lines.length
+    );
+
+  const idOf = (k: number) => ids[k] ?? String(k);
+  const nodes = Array.from({ length: n }, (_, i) =>
+    makeNode(idOf(i + 1), labels[i + 1] ?? String(i + 1))
+  );
+  const edges = arcs.map(({ u, v, w }, j) =>
+    makeEdge(`${idOf(u)}-${idOf(v)}-${j}`, idOf(u), idOf(v), w)
+  );
+  return { nodes, edges };
+}
+
+function toDimacs(graph: Graph): string {
+  const index = new Map(graph.nodes.map((x, i) => [x.id, i + 1]));
+  return [
+    "c exported from SSSP Gym",
+    ...graph.nodes.map(
+      (x, i) =>
+        `c node ${i + 1} ${encodeURIComponent(x.id)} ${encodeURIComponent(
+          x.data.label
+        )}`
+    ),
+    `p sp ${graph.nodes.length} ${graph.edges.length}`,
+    ...graph.edges.map(
+      (e) => `a ${index.get(e.source)} ${index.get(e.target)} ${weightOf(e)}`
+    ),
+    "",
+  ].join("\n");
+}
+
+// -------- CSV edge list --------
+// Header "source,target,weight[,source_label,target_label]"; a row with an
+// empty target declares an isolated vertex. Comma, semicolon or tab separated.
+const CSV_HEADER = [
+  "source",
+  "target",
+  "weight",
+  "source_label",
+  "target_label",
+];
+
+function splitCsvLine(line: string, sep: string, lineNo: number): string[] {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else cur += ch;
+    } else if (ch === '"' && cur === "") quoted = true;
+    else if (ch === sep) {
+      out.push(cur.trim());
+      cur = "";
+    } else cur += ch;
+  }
+  if (quoted) throw new GraphParseError("unterminated quote", lineNo);
+  out.push(cur.trim());
+  return out;
+}
+
+function parseCsv(text: string): Graph {
+  const lines = text.split(/\r?\n/);
+  const firstLine = lines.find((l) => l.trim() !== "") ?? "";
+  const sep = firstLine.includes("\t")
+    ? "\t"
+    : firstLine.includes(";") && !firstLine.includes(",")
+    ? ";"
+    : ",";
+
+  const nodes: RFNode[] = [];
+  const byId = new Map<NodeId, RFNode>();
+  const ensure = (id: NodeId, label?: string) => {
+    let x = byId.get(id);
+    if (!x) {
+      x = makeNode(id, label || id);
+      byId.set(id, x);
+      nodes.push(x);
+    } else if (label) x.data = { ...x.data, label };
+    return x;
+  };
+  const edges: RFEdge[] = [];
+  let columns: string[] | undefined;
+
+  lines.forEach((raw, i) => {
+    const line = i + 1;
+    if (raw.trim() === "" || raw.trimStart().startsWith("#")) return;
+    const cells = splitCsvLine(raw, sep, line);
+    if (!columns) {
+      const lower = cells.map((c) => c.toLowerCase());
+      if (lower.includes("source") && lower.includes("target")) {
+        columns = lower;
+        return;
+      }
+      columns = CSV_HEADER;
+    }
+    const get = (name: string) => {
+      const k = columns!.indexOf(name);
+      return k < 0 ? "" : cells[k] ?? "";
+    };
+    const source = get("source");
+    const target = get("target");
+    if (source === "") throw new GraphParseError("missing source", line);
+    ensure(source, get("source_label"));
+    if (target === "") return; // isolated vertex
+    ensure(target, get("target_label"));
+    const wText = get("weight") || get("w") || "1";
+    const w = Number(wText);
+    if (!Number.isFinite(w))
+      throw new GraphParseError(`weight "${wText}" is not a number`, line);
+    edges.push(
+      makeEdge(`${source}-${target}-${edges.length}`, source, target, w)
+    );
+  });
+
+  return { nodes, edges };
+}
+
+function csvCell(s: string) {
+  return /[",;\t\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function toCsv(graph: Graph): string {
+  const label = new Map(graph.nodes.map((x) => [x.id, x.data.label]));
+  const touched = new Set<NodeId>();
+  const rows = graph.edges.map((e) => {
+    touched.add(e.source);
+    touched.add(e.target);
+    return [
+      e.source,
+      e.target,
+      String(weightOf(e)),
+      label.get(e.source) ?? e.source,
+      label.get(e.target) ?? e.target,
+    ];
+  });
+  // vertices first so the import keeps their order
+  const vertexRows = graph.nodes.map((x) => [x.id, "", "", x.data.label, ""]);
+  return [CSV_HEADER, ...vertexRows, ...rows]
+    .map((r) => r.map(csvCell).join(","))
+    .concat("")
+    .join("\n");
+}
+
+// -------- GraphML --------
+// A small tag scanner rather than DOMParser, so errors can carry line numbers.
+const unescapeXml = (s: string) =>
+  s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+const escapeXml = (s: string) =>
+  s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+function parseGraphml(text: string): Graph {
+  const lineAt = (pos: number) => text.slice(0, pos).split("\n").length;
+  const attrsOf = (s: string) => {
+    const out: Record<string, string> = {};
+    s.replace(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g, (_, k, __, a, b) => {
+      out[k] = unescapeXml(a ?? b);
+      return "";
+    });
+    return out;
+  };
+
+  // key id → attribute name, per domain
+  const keys: Record<string, string> = {};
+  const nodes: RFNode[] = [];
+  const ids = new Set<NodeId>();
+  const pendingEdges: {
+    id?: string;
+    source: string;
+    target: string;
+    w?: string;
+    line: number;
+  }[] = [];
+  let sawGraph = false;
+
+  type Open = { tag: string; attrs: Record<string, string>; line: number };
+  const stack: Open[] = [];
+  let current: { kind: "node" | "edge"; data: Record<string, string> } | null =
+    null;
+  let dataKey: string | undefined;
+  let dataText = "";
+  let currentAttrs: Record<string, string> = {};
+  let currentLine = 0;
+
+  const tagRe =
+    /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([\w:.-]+)([^>]*?)(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = tagRe.exec(text))) {
+    const [, cdata, closing, tagName, rawAttrs, selfClosing, chars] = match;
+    const line = lineAt(match.index);
+    if (chars !== undefined || cdata !== undefined) {
+      if (dataKey !== undefined) dataText += cdata ?? unescapeXml(chars ?? "");
+      continue;
+    }
+    if (tagName === undefined) continue; // comment or processing instruction
+    const tag = tagName.replace(/^.*:/, "");
+
+    if (closing) {
+      const open = stack.pop();
+      if (!open || open.tag !== tag)
+        throw new GraphParseError(
+          `unexpected </${tag}>${open ? `, <${open.tag}> is still open` : ""}`,
+          line
+        );
+      if (tag === "data" && current && dataKey !== undefined) {
+        current.data[keys[dataKey] ?? dataKey] = dataText.trim();
+        dataKey = undefined;
+      }
+      if (tag === "node" || tag === "edge") finish(tag);
+      continue;
+    }
+
+    const attrs = attrsOf(rawAttrs);
+    if (tag === "key") {
+      if (attrs.id) keys[attrs.id] = attrs["attr.name"] ?? attrs.id;
+    } else if (tag === "graph") {
+      sawGraph = true;
+    } else if (tag === "node" || tag === "edge") {
+      current = { kind: tag, data: {} };
+      currentAttrs = attrs;
+      currentLine = line;
+    } else if (tag === "data" && current) {
+      // graph-level <data> is ignored
+      dataKey = attrs.key ?? "";
+      dataText = "";
+    }
+
+    if (selfClosing) {
+      if (tag === "node" || tag === "edge") finish(tag);
+      else if (tag === "data") dataKey = undefined;
+    } else stack.push({ tag, attrs, line });
+  }
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1];
+    throw new GraphParseError(`<${open.tag}> is never closed`, open.line);
+  }
+  if (!sawGraph) throw new GraphParseError("no <graph> element");
+
+  function finish(kind: "node" | "edge") {
+    const data = current?.data ?? {};
+    if (kind === "node") {
+      const id = currentAttrs.id;
+      if (!id) throw new GraphParseError("<node> without id", currentLine);
+      if (ids.has(id))
+        throw new GraphParseError(`duplicate node id "${id}"`, currentLine);
+      ids.add(id);
+      const x = Number(data.x);
+      const y = Number(data.y);
+      nodes.push({
+        ...makeNode(id, data.label ?? id),
+        position: { x: x || 0, y: y || 0 },
+      });
+    } else {
+      const { source, target, id } = currentAttrs;
+      if (!source || !target)
+        throw new GraphParseError(
+          "<edge> needs source and target",
+          currentLine
+        );
+      pendingEdges.push({
+        id,
+        source,
+        target,
+        w: data.weight ?? data.w,
+        line: currentLine,
+      });
+    }
+    current = null;
+  }
+
+  const edges = pendingEdges.map(({ id, source, target, w, line }, j) => {
+    [source, target].forEach((x) => {
+      if (!ids.has(x))
+        throw new GraphParseError(`edge refers to unknown node "${x}"`, line);
+    });
+    const weight = w === undefined || w === "" ? 1 : Number(w);
+    if (!Number.isFinite(weight))
+      throw new GraphParseError(`weight "${w}" is not a number`, line);
+    return makeEdge(id ?? `${source}-${target}-${j}`, source, target, weight);
+  });
+  return { nodes, edges };
+}
+
+function toGraphml(graph: Graph): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="x" for="node" attr.name="x" attr.type="double"/>',
+    '  <key id="y" for="node" attr.name="y" attr.type="double"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+    '  <graph id="G" edgedefault="directed">',
+    ...graph.nodes.map(
+      (x) =>
+        `    <node id="${escapeXml(x.id)}"><data key="label">${escapeXml(
+          x.data.label
+        )}</data><data key="x">${x.position.x}</data><data key="y">${
+          x.position.y
+        }</data></node>`
+    ),
+    ...graph.edges.map(
+      (e) =>
+        `    <edge id="${escapeXml(e.id)}" source="${escapeXml(
+          e.source
+        )}" target="${escapeXml(e.target)}"><data key="weight">${weightOf(
+          e
+        )}</data></edge>`
+    ),
+    "  </graph>",
+    "</graphml>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,59 @@
+import { toConstantDegree } from "./constantDegree";
+import { generateGraph } from "./graph";
+import { getGenerator } from "./generators";
+import { hasPositions, layoutGraph } from "./layout";
+
+describe("layoutGraph", () => {
+  it("keeps file positions", async () => {
+    const g = generateGraph(6, 0.3, 1);
+    g.nodes.forEach((n, i) => (n.position = { x: 10 * i, y: -i }));
+    expect(hasPositions(g)).toBe(true);
+    const out = await layoutGraph(g, "keep");
+    expect(out.nodes.map((n) => n.position)).toEqual(
+      g.nodes.map((n) => n.position)
+    );
+  });
+
+  it("places grid-generator graphs by their row,col labels", async () => {
+    const grid = getGenerator("grid").build(
+      { rows: 3, cols: 4, diagonals: 0 },
+      2
+    );
+    const out = await layoutGraph(grid, "grid");
+    const at = (label: string) =>
+      out.nodes.find((n) => n.data.label === label)!.position;
+    expect(at("0,0").y).toBe(at("0,3").y);
+    expect(at("0,1").x).toBe(at("2,1").x);
+    expect(at("2,3").x).toBeGreaterThan(at("2,0").x);
+    expect(at("2,0").y).toBeGreaterThan(at("0,0").y);
+  });
+
+  it("puts the radial root in the centre and rings by BFS depth", async () => {
+    const g = getGenerator("path-shortcuts").build({ n: 6, shortcuts: 0 }, 1);
+    const out = await layoutGraph(g, "radial", "0");
+    const r = (id: string) => {
+      const { x, y } = out.nodes.find((n) => n.id === id)!.position;
+      return Math.hypot(x, y);
+    };
+    expect(r("0")).toBe(0);
+    expect(r("2")).toBeGreaterThan(r("1"));
+    expect(r("5")).toBeGreaterThan(r("4"));
+  });
+
+  it("sizes groups around their slots", async () => {
+    const t = toConstantDegree(generateGraph(6, 0.4, 3));
+    const view = {
+      nodes: [...t.groups, ...t.graph.nodes],
+      edges: t.graph.edges,
+    };
+    const out = await layoutGraph(view, "grid");
+    out.nodes
+      .filter((n) => n.parentId !== undefined)
+      .forEach((n) => {
+        const group = out.nodes.find((g) => g.id === n.parentId)!;
+        expect(n.position.x + 44).toBeLessThanOrEqual(
+          Number(group.style!.width)
+        );
+      });
+  });
+});
@@ -0,0 +1,248 @@
+import ELK from "elkjs/lib/elk.bundled.js";
+import { groupId } from "./constantDegree";
+import { Graph, NodeId, RFNode } from "./graph";
+
+// ---------------- Layouts ----------------
+// All panels share one layout. ELK handles the layered, force and stress
+// variants (group nodes of the constant-degree transform included); "keep",
+// "radial" and "grid" are placed here, with each group treated as one unit
+// whose slots sit in a row inside it.
+
+export type LayoutKind =
+  | "keep"
+  | "layered-RIGHT"
+  | "layered-DOWN"
+  | "layered-LEFT"
+  | "layered-UP"
+  | "force"
+  | "stress"
+  | "radial"
+  | "grid";
+
+export const LAYOUTS: { kind: LayoutKind; label: string }[] = [
+  { kind: "keep", label: "Keep file positions" },
+  { kind: "layered-RIGHT", label: "ELK layered →" },
+  { kind: "layered-DOWN", label: "ELK layered ↓" },
+  { kind: "layered-LEFT", label: "ELK layered ←" },
+  { kind: "layered-UP", label: "ELK layered ↑" },
+  { kind: "force", label: "ELK force" },
+  { kind: "stress", label: "ELK stress" },
+  { kind: "radial", label: "Radial (BFS rings)" },
+  { kind: "grid", label: "Grid" },
+];
+
+const NODE = 48; // ELK box of one 44px circle
+const SLOT = 68; // slot pitch inside a group
+const PAD = 12;
+
+// True when some node carries a real position, i.e. the file had a layout.
+export function hasPositions(graph: Graph) {
+  return graph.nodes.some((n) => n.position.x !== 0 || n.position.y !== 0);
+}
+
+export async function layoutGraph(
+  graph: Graph,
+  kind: LayoutKind,
+  rootId?: NodeId
+): Promise<Graph> {
+  if (kind.startsWith("layered-"))
+    return applyElkLayout(graph, {
+      "elk.algorithm": "layered",
+      "elk.direction": kind.slice("layered-".length),
+      "elk.layered.spacing.nodeNodeBetweenLayers": "80",
+      "elk.layered.nodePlacement.bk.fixedAlignment": "BALANCED",
+    });
+  if (kind === "force" || kind === "stress")
+    return applyElkLayout(graph, { "elk.algorithm": kind });
+
+  const units = graph.nodes.filter((n) => n.parentId === undefined);
+  const slots: Record<NodeId, number> = {};
+  graph.nodes.forEach((n) => {
+    if (n.parentId !== undefined)
+      slots[n.parentId] = (slots[n.parentId] ?? 0) + 1;
+  });
+  const pitch =
+    Math.max(NODE, ...units.map((u) => unitWidth(slots[u.id]))) + 60;
+  const place =
+    kind === "keep"
+      ? (u: RFNode) => u.position
+      : kind === "radial"
+      ? radialPlacer(graph, units, pitch, rootId)
+      : gridPlacer(units, pitch);
+  return placeUnits(graph, place);
+}
+
+// ---------------- ELK ----------------
+const elk = new ELK();
+
+async function applyElkLayout(
+  graph: Graph,
+  options: Record<string, string>
+): Promise<Graph> {
+  // Nodes with a parentId are laid out inside their group; ELK reports their
+  // positions relative to the group, which is what ReactFlow expects too.
+  const childrenOf = (parentId?: NodeId): any[] =>
+    graph.nodes
+      .filter((n) => n.parentId === parentId)
+      .map((n) =>
+        n.type === "group"
+          ? {
+              id: n.id,
+              layoutOptions: {
+                "elk.padding": "[top=12,left=12,bottom=12,right=12]",
+              },
+              children: childrenOf(n.id),
+            }
+          : { id: n.id, width: NODE, height: NODE }
+      );
+
+  const elkGraph: any = {
+    id: "root",
+    layoutOptions: {
+      "elk.spacing.nodeNode": "60",
+      "elk.hierarchyHandling": "INCLUDE_CHILDREN",
+      ...options,
+    },
+    children: childrenOf(undefined),
+    edges: graph.edges.map((e) => ({
+      id: e.id,
+      sources: [e.source],
+      targets: [e.target],
+    })),
+  };
+
+  const res = await elk.layout(elkGraph);
+  type Box = { x: number; y: number; w?: number; h?: number };
+  const boxById: Record<string, Box> = {};
+  const collect = (list: any[] = []) =>
+    list.forEach((c: any) => {
+      boxById[c.id] = { x: c.x ?? 0, y: c.y ?? 0, w: c.width, h: c.height };
+      collect(c.children);
+    });
+  collect(res.children);
+
+  const nodes = graph.nodes.map((n) => {
+    const box = boxById[n.id];
+    if (!box) return n;
+    return {
+      ...n,
+      position: { x: box.x, y: box.y },
+      style:
+        n.type === "group"
+          ? { ...n.style, width: box.w, height: box.h }
+          : n.style,
+    };
+  });
+  return { nodes, edges: graph.edges };
+}
+
+// ---------------- Hand-placed layouts ----------------
+const unitWidth = (slots = 1) => 2 * PAD + (slots - 1) * SLOT + NODE;
+
+// Positions each top-level unit; group children go in a row inside.
+function placeUnits(
+  graph: Graph,
+  place: (unit: RFNode) => { x: number; y: number }
+): Graph {
+  const childIndex: Record<NodeId, number> = {};
+  const childCount: Record<NodeId, number> = {};
+  graph.nodes.forEach((n) => {
+    if (n.parentId === undefined) return;
+    childIndex[n.id] = childCount[n.parentId] ?? 0;
+    childCount[n.parentId] = childIndex[n.id] + 1;
+  });
+
+  const nodes = graph.nodes.map((n) => {
+    if (n.parentId !== undefined)
+      return {
+        ...n,
+        position: { x: PAD + childIndex[n.id] * SLOT, y: PAD },
+      };
+    const position = place(n);
+    if (n.type !== "group") return { ...n, position };
+    const k = childCount[n.id] ?? 1;
+    return {
+      ...n,
+      position,
+      style: { ...n.style, width: unitWidth(k), height: 2 * PAD + NODE },
+    };
+  });
+  return { nodes, edges: graph.edges };
+}
+
+// Unit an edge endpoint belongs to (its group, if any).
+function unitEdges(graph: Graph) {
+  const unitOf: Record<NodeId, NodeId> = {};
+  graph.nodes.forEach((n) => (unitOf[n.id] = n.parentId ?? n.id));
+  return graph.edges
+    .map((e) => ({ u: unitOf[e.source], v: unitOf[e.target] }))
+    .filter(({ u, v }) => u !== undefined && v !== undefined && u !== v);
+}
+
+// Concentric rings by BFS depth from the root; unreachable units form an
+// outer ring of their own.
+function radialPlacer(
+  graph: Graph,
+  units: RFNode[],
+  pitch: number,
+  rootId?: NodeId
+) {
+  const adj: Record<NodeId, NodeId[]> = {};
+  units.forEach((u) => (adj[u.id] = []));
+  unitEdges(graph).forEach(({ u, v }) => adj[u]?.push(v));
+
+  const root =
+    units.find((u) => u.id === rootId || u.id === groupId(rootId ?? ""))?.id ??
+    units[0]?.id;
+  const depth: Record<NodeId, number> = {};
+  if (root !== undefined) {
+    depth[root] = 0;
+    const queue = [root];
+    for (let i = 0; i < queue.length; i++)
+      adj[queue[i]].forEach((v) => {
+        if (depth[v] !== undefined) return;
+        depth[v] = depth[queue[i]] + 1;
+        queue.push(v);
+      });
+  }
+  const maxDepth = Math.max(0, ...Object.values(depth));
+  units.forEach((u) => {
+    if (depth[u.id] === undefined) depth[u.id] = maxDepth + 1;
+  });
+
+  const ring: Record<number, NodeId[]> = {};
+  units.forEach(
+    (u) => (ring[depth[u.id]] = [...(ring[depth[u.id]] ?? []), u.id])
+  );
+  const pos: Record<NodeId, { x: number; y: number }> = {};
+  Object.entries(ring).forEach(([d, ids]) => {
+    // wide enough that neighbours on a crowded ring do not overlap
+    const r =
+      Number(d) === 0
+        ? 0
+        : Math.max(Number(d) * pitch, (ids.length * pitch) / (2 * Math.PI));
+    ids.forEach((id, i) => {
+      const a = (2 * Math.PI * i) / ids.length - Math.PI / 2;
+      pos[id] = { x: r * Math.cos(a), y: r * Math.sin(a) };
+    });
+  });
+  return (u: RFNode) => pos[u.id];
+}
+
+// Uses "row,col" labels (as the grid generator writes them) when every unit
+// has one; otherwise fills rows of ⌈√n⌉ in node order.
+function gridPlacer(units: RFNode[], pitchX: number) {
+  const cells = units.map((u) => /^(\d+),(\d+)$/.exec(String(u.data.label)));
+  const labelled = cells.every((c) => c !== null);
+  const cols = Math.max(1, Math.ceil(Math.sqrt(units.length)));
+  const pitchY = 2 * PAD + NODE + 60;
+
+  const pos: Record<NodeId, { x: number; y: number }> = {};
+  units.forEach((u, i) => {
+    const [r, c] = labelled
+      ? [Number(cells[i]![1]), Number(cells[i]![2])]
+      : [Math.floor(i / cols), i % cols];
+    pos[u.id] = { x: c * pitchX, y: r * pitchY };
+  });
+  return (u: RFNode) => pos[u.id];
+}
@@ -0,0 +1,72 @@
+import {
+  deleteEntry,
+  duplicateEntry,
+  exportLibrary,
+  importLibrary,
+  listEntries,
+  renameEntry,
+  saveEntry,
+} from "./library";
+
+beforeEach(() => localStorage.clear());
+
+describe("graph library", () => {
+  it("saves, renames, duplicates and deletes entries", () => {
+    saveEntry("grid", "graph", { graph: "abc" });
+    const [a, b] = saveEntry("lesson 1", "session", {
+      seed: 79,
+      start: "3",
+    }).entries;
+    expect(listEntries().map((e) => e.name)).toEqual(["grid", "lesson 1"]);
+
+    renameEntry(a.id, "small grid");
+    const dup = duplicateEntry(a.id).entries;
+    expect(dup.map((e) => e.name)).toEqual([
+      "small grid",
+      "small grid (copy)",
+      "lesson 1",
+    ]);
+    expect(dup[1].id).not.toBe(a.id);
+    expect(dup[1].state).toEqual({ graph: "abc" });
+
+    expect(deleteEntry(a.id).entries.map((e) => e.name)).toEqual([
+      "small grid (copy)",
+      "lesson 1",
+    ]);
+    expect(listEntries()[1]).toEqual(b);
+  });
+
+  it("ignores unreadable storage", () => {
+    localStorage.setItem("sssp-gym.library", "{oops");
+    expect(listEntries()).toEqual([]);
+  });
+
+  it("round-trips the whole library through a file", () => {
+    saveEntry("one", "graph", { graph: "x" });
+    saveEntry("two", "session", { seed: 1 });
+    const file = exportLibrary();
+    localStorage.clear();
+
+    const back = importLibrary(file).entries;
+    expect(back.map((e) => [e.name, e.kind, e.state])).toEqual([
+      ["one", "graph", { graph: "x" }],
+      ["two", "session", { seed: 1 }],
+    ]);
+    expect(importLibrary(file).entries).toHaveLength(4);
+    expect(() => importLibrary("[]")).toThrow("Not an SSSP Gym library");
+    expect(() => importLibrary("nope")).toThrow("not valid JSON");
+  });
+
+  it("reports a write the browser refuses", () => {
+    saveEntry("kept", "graph", { graph: "x" });
+    const setItem = jest
+      .spyOn(Storage.prototype, "setItem")
+      .mockImplementation(() => {
+        throw new DOMException("full", "QuotaExceededError");
+      });
+    const result = saveEntry("big", "session", { seed: 1 });
+    setItem.mockRestore();
+    expect(result.error).toMatch(/storage is full/);
+    expect(result.entries.map((e) => e.name)).toEqual(["kept"]);
+  });
+});
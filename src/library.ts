@@ -0,0 +1,121 @@
+import { UrlState } from "./urlState";
+
+// ---------------- Graph library ----------------
+// Named graphs and sessions kept in localStorage. Both store a UrlState: a
+// graph entry only its compressed graph, a session everything the share link
+// carries (graph always embedded, whatever its size). Every operation returns
+// the updated list so callers can keep it in React state; when the browser
+// refuses the write (storage full, or disabled in private mode) it returns
+// the list as stored before, with an error to show.
+
+export type LibraryKind = "graph" | "session";
+
+export type LibraryEntry = {
+  id: string;
+  name: string;
+  kind: LibraryKind;
+  savedAt: number; // ms since epoch
+  state: UrlState;
+};
+
+export type LibraryUpdate = { entries: LibraryEntry[]; error?: string };
+
+const STORAGE_KEY = "sssp-gym.library";
+const FILE_FORMAT = "sssp-gym-library";
+
+const newId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+function isEntry(x: any): x is LibraryEntry {
+  return (
+    typeof x?.name === "string" &&
+    (x.kind === "graph" || x.kind === "session") &&
+    typeof x.state === "object" &&
+    x.state !== null
+  );
+}
+
+export function listEntries(): LibraryEntry[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(raw) ? raw.filter(isEntry) : [];
+  } catch {
+    return []; // unreadable storage behaves like an empty library
+  }
+}
+
+function store(entries: LibraryEntry[]): LibraryUpdate {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    return { entries };
+  } catch (err) {
+    const full =
+      err instanceof DOMException && err.name === "QuotaExceededError";
+    return {
+      entries: listEntries(),
+      error: full
+        ? "Browser storage is full; delete or export some entries first"
+        : "Browser storage is not available, so nothing was saved",
+    };
+  }
+}
+
+export function saveEntry(
+  name: string,
+  kind: LibraryKind,
+  state: UrlState
+): LibraryUpdate {
+  const entry = { id: newId(), name, kind, savedAt: Date.now(), state };
+  return store([...listEntries(), entry]);
+}
+
+export function renameEntry(id: string, name: string): LibraryUpdate {
+  return store(listEntries().map((e) => (e.id === id ? { ...e, name } : e)));
+}
+
+export function duplicateEntry(id: string): LibraryUpdate {
+  const entries = listEntries();
+  const k = entries.findIndex((e) => e.id === id);
+  if (k < 0) return { entries };
+  const copy = {
+    ...entries[k],
+    id: newId(),
+    name: `${entries[k].name} (copy)`,
+    savedAt: Date.now(),
+  };
+  return store([...entries.slice(0, k + 1), copy, ...entries.slice(k + 1)]);
+}
+
+export function deleteEntry(id: string): LibraryUpdate {
+  return store(listEntries().filter((e) => e.id !== id));
+}
+
+// ---------------- Library files ----------------
+export function exportLibrary(): string {
+  return JSON.stringify(
+    { format: FILE_FORMAT, version: 1, entries: listEntries() },
+    null,
+    2
+  );
+}
+
+// Adds the file's entries under fresh ids, so importing twice duplicates
+// rather than overwrites. Throws when the file is not a library.
+export function importLibrary(text: string): LibraryUpdate {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error("Library file is not valid JSON");
+  }
+  if (file?.format !== FILE_FORMAT || !Array.isArray(file.entries))
+    throw new Error("Not an SSSP Gym library file");
+  const added = file.entries.filter(isEntry).map((e: LibraryEntry) => ({
+    id: newId(),
+    name: e.name,
+    kind: e.kind,
+    savedAt: Number(e.savedAt) || Date.now(),
+    state: e.state,
+  }));
+  return store([...listEntries(), ...added]);
+}
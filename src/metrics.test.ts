@@ -0,0 +1,95 @@
+import { runBellmanFordSteps } from "./bellmanFord";
+import { runPaperSteps } from "./bmssp";
+import { runDeltaSteppingSteps, runDialSteps } from "./buckets";
+import { runDijkstraSteps } from "./dijkstra";
+import { generateGraph } from "./graph";
+import { METRICS, MetricKey, metricSeries, sampleSeries } from "./metrics";
+
+describe("step metrics", () => {
+  const g = generateGraph(16, 0.25, 11);
+  const traces = {
+    dijkstra: runDijkstraSteps(g, "0"),
+    bmssp: runPaperSteps(g, "0"),
+    dial: runDialSteps(g, "0"),
+    delta: runDeltaSteppingSteps(g, "0", 3),
+    bellmanFord: runBellmanFordSteps(g, "0"),
+  };
+
+  it("records cumulative counters in every engine", () => {
+    Object.values(traces).forEach((steps) => {
+      const cumulative: MetricKey[] = [
+        "relaxations",
+        "improvements",
+        "extractions",
+        "comparisons",
+      ];
+      cumulative.forEach((key) => {
+        const values = metricSeries(steps, key)!;
+        expect(values).toHaveLength(steps.length);
+        values
+          .slice(1)
+          .forEach((v, i) => expect(v).toBeGreaterThanOrEqual(values[i]));
+      });
+      const last = steps[steps.length - 1].metrics!;
+      expect(last.improvements).toBeLessThanOrEqual(last.relaxations);
+      expect(last.queueSize).toBe(0);
+    });
+  });
+
+  it("counts one relaxation per relax step outside BMSSP", () => {
+    const { bmssp, ...rest } = traces;
+    Object.values(rest).forEach((steps) => {
+      const last = steps[steps.length - 1].metrics!;
+      const kinds = steps.map((s) => s.kind);
+      expect(last.improvements).toBe(kinds.filter((k) => k === "relax").length);
+      expect(last.relaxations).toBe(
+        kinds.filter((k) => k === "relax" || k === "relax-noop").length
+      );
+    });
+    // FindPivots relaxes without a step per edge
+    const last = bmssp[bmssp.length - 1].metrics!;
+    expect(last.relaxations).toBeGreaterThanOrEqual(
+      bmssp.filter((s) => s.relaxing).length
+    );
+  });
+
+  it("matches Dijkstra's queue counters", () => {
+    const steps = traces.dijkstra;
+    steps.forEach((s) => {
+      expect(s.metrics!.extractions).toBe(s.ops!.extractMin);
+      expect(s.metrics!.comparisons).toBe(s.ops!.comparisons);
+    });
+    const settled = steps[steps.length - 1].settled.size;
+    expect(steps[steps.length - 1].metrics!.extractions).toBe(settled);
+  });
+
+  it("only has BMSSP counters on BMSSP traces", () => {
+    const rounds = metricSeries(traces.bmssp, "findPivotsRounds")!;
+    expect(rounds[rounds.length - 1]).toBeGreaterThan(0);
+    const chunks = metricSeries(traces.bmssp, "chunks")!;
+    expect(chunks[chunks.length - 1]).toBeGreaterThan(0);
+    expect(metricSeries(traces.dijkstra, "chunks")).toBeUndefined();
+    expect(METRICS.map((m) => m.key)).toContain("findPivotsRounds");
+  });
+});
+
+describe("series sampling", () => {
+  it("keeps short series whole", () => {
+    expect(sampleSeries([3, 1, 4])).toEqual([
+      [0, 3],
+      [1, 1],
+      [2, 4],
+    ]);
+  });
+
+  it("thins long series but keeps spikes and the last step", () => {
+    const values = Array.from({ length: 1000 }, (_, i) => (i === 517 ? 99 : 1));
+    const points = sampleSeries(values, 50);
+    expect(points.length).toBeLessThanOrEqual(51);
+    expect(points).toContainEqual([517, 99]);
+    expect(points[points.length - 1]).toEqual([999, 1]);
+    points
+      .slice(1)
+      .forEach(([i], p) => expect(i).toBeGreaterThan(points[p][0]));
+  });
+});
@@ -0,0 +1,73 @@
+import { StepSnapshot } from "./graph";
+
+// ---------------- Metrics ----------------
+// Work counters every engine records in its snapshots. All are cumulative
+// except queueSize, the number of vertices waiting in the engine's frontier
+// structure at that step. `comparisons` counts key comparisons made by that
+// structure (for BMSSP only BaseCase's heap; D's partial sorts are not
+// counted), so it is zero for Bellman–Ford.
+export interface StepMetrics {
+  relaxations: number; // edges examined
+  improvements: number; // relaxations that lowered a distance
+  extractions: number; // vertices taken out of the frontier structure
+  comparisons: number;
+  queueSize: number;
+  findPivotsRounds?: number; // BMSSP only
+  chunks?: number; // BMSSP only: Pulls from D
+}
+
+export type MetricKey = keyof StepMetrics;
+
+export const METRICS: { key: MetricKey; label: string }[] = [
+  { key: "relaxations", label: "Relaxations" },
+  { key: "improvements", label: "Improving relaxations" },
+  { key: "extractions", label: "Extractions" },
+  { key: "queueSize", label: "Queue size" },
+  { key: "comparisons", label: "Comparisons" },
+  { key: "findPivotsRounds", label: "FindPivots rounds" },
+  { key: "chunks", label: "Chunks" },
+];
+
+export function createMetrics(): StepMetrics {
+  return {
+    relaxations: 0,
+    improvements: 0,
+    extractions: 0,
+    comparisons: 0,
+    queueSize: 0,
+  };
+}
+
+export function countRelax(m: StepMetrics, improved: boolean) {
+  m.relaxations++;
+  if (improved) m.improvements++;
+}
+
+// One value per step, or undefined when the trace never records the metric.
+export function metricSeries(
+  steps: StepSnapshot[],
+  key: MetricKey
+): number[] | undefined {
+  if (!steps.some((s) => s.metrics?.[key] !== undefined)) return undefined;
+  return steps.map((s) => s.metrics?.[key] ?? 0);
+}
+
+// At most `max` points (plus the last step) so long traces still draw as a
+// light polyline; each kept point is the largest value of its stretch, so
+// spikes in queue size survive.
+export function sampleSeries(values: number[], max = 240): [number, number][] {
+  if (values.length <= max) return values.map((v, i) => [i, v]);
+  const out: [number, number][] = [];
+  const span = (values.length - 1) / (max - 1);
+  for (let p = 0; p < max; p++) {
+    const from = Math.round(p * span);
+    const to = Math.max(from, Math.round((p + 1) * span) - 1);
+    let at = from;
+    for (let i = from + 1; i <= Math.min(to, values.length - 1); i++)
+      if (values[i] > values[at]) at = i;
+    out.push([at, values[at]]);
+  }
+  if (out[out.length - 1][0] !== values.length - 1)
+    out.push([values.length - 1, values[values.length - 1]]);
+  return out;
+}
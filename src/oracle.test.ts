@@ -0,0 +1,96 @@
+import { ALGORITHMS, defaultOptions } from "./algorithms";
+import { generateGraph } from "./graph";
+import { referenceDistances, verifyFinal } from "./oracle";
+
+describe("verifyFinal", () => {
+  it.each(ALGORITHMS.map((a) => [a.name, a] as const))(
+    "accepts the final state of %s",
+    (_, entry) => {
+      for (let seed = 1; seed < 8; seed++) {
+        const g = generateGraph(12, 0.3, seed);
+        const steps = entry.run(g, "0", defaultOptions(entry));
+        const report = verifyFinal(
+          g,
+          "0",
+          steps[steps.length - 1],
+          referenceDistances(g, "0")
+        );
+        expect(report.mismatches).toEqual({});
+      }
+    }
+  );
+
+  it("flags wrong distances, missing edges and loose pred edges", () => {
+    const g = generateGraph(10, 0.3, 3);
+    const ref = referenceDistances(g, "0");
+    const reached = g.nodes
+      .map((n) => n.id)
+      .filter((v) => v !== "0" && ref.dist[v] < Infinity);
+    const [a, b, c] = reached;
+    const bad = {
+      step: 0,
+      kind: "done" as const,
+      description: "",
+      settled: new Set<string>(),
+      frontier: new Set<string>(),
+      dist: { ...ref.dist, [a]: ref.dist[a] + 1, [c]: Infinity },
+      pred: { [b]: "nope" },
+    };
+    const { mismatches } = verifyFinal(g, "0", bad, ref);
+    expect(mismatches[a].join()).toMatch(/expected/);
+    expect(mismatches[b].join()).toMatch(/does not exist/);
+    expect(mismatches[c].join()).toMatch(/expected/);
+  });
+
+  it("flags a tight pred cycle that never reaches the source", () => {
+    const g = generateGraph(3, 0, 1);
+    const edge = (source: string, target: string, w: number) => ({
+      id: `${source}-${target}`,
+      source,
+      target,
+      label: String(w),
+      data: { w },
+    });
+    g.edges = [edge("0", "1", 0), edge("1", "2", 0), edge("2", "1", 0)];
+    const final = {
+      step: 0,
+      kind: "done" as const,
+      description: "",
+      settled: new Set<string>(),
+      frontier: new Set<string>(),
+      dist: { "0": 0, "1": 0, "2": 0 },
+      pred: { "1": "2", "2": "1" },
+    };
+    const { mismatches } = verifyFinal(
+      g,
+      "0",
+      final,
+      referenceDistances(g, "0")
+    );
+    expect(mismatches["1"].join()).toMatch(/does not reach 0/);
+    expect(mismatches["2"].join()).toMatch(/does not reach 0/);
+  });
+
+  it("skips graphs with a negative cycle", () => {
+    const g = generateGraph(6, 0.5, 1);
+    g.edges.forEach((e) => (e.data = { w: -1 }));
+    g.edges.push({
+      ...g.edges[0],
+      id: "back",
+      source: g.edges[0].target,
+      target: g.edges[0].source,
+    });
+    const ref = referenceDistances(g, "0");
+    expect(ref.negativeCycle).toBe(true);
+    const final = {
+      step: 0,
+      kind: "done" as const,
+      description: "",
+      settled: new Set<string>(),
+      frontier: new Set<string>(),
+      dist: {},
+      pred: {},
+    };
+    expect(verifyFinal(g, "0", final, ref).skipped).toBeDefined();
+  });
+});
@@ -0,0 +1,93 @@
+import { Graph, NodeId, StepSnapshot, fmtDist, sameDist } from "./graph";
+
+// ---------------- Correctness oracle ----------------
+// Cross-checks the final snapshot of any trace against Bellman–Ford: dist
+// must agree, every pred pointer must be an existing edge that is tight
+// (dist[u] + w = dist[v]), and following pred must lead back to the source.
+
+export type OracleReport = {
+  skipped?: string; // why nothing was checked
+  mismatches: Record<NodeId, string[]>; // per node, human-readable problems
+};
+
+export type OracleReference = {
+  dist: Record<NodeId, number>;
+  negativeCycle: boolean; // reachable from src; dist is then meaningless
+};
+
+// Plain Bellman–Ford: no snapshots, since this runs on every graph edit.
+// Stops after a quiet round; an improvement in round n means a cycle.
+export function referenceDistances(graph: Graph, src: NodeId): OracleReference {
+  const dist: Record<NodeId, number> = {};
+  graph.nodes.forEach((x) => (dist[x.id] = Infinity));
+  dist[src] = 0;
+  for (let round = 1; round <= graph.nodes.length; round++) {
+    let changed = false;
+    for (const e of graph.edges) {
+      const cand = dist[e.source] + (e.data?.w ?? Number(e.label));
+      if (cand < dist[e.target]) {
+        dist[e.target] = cand;
+        changed = true;
+      }
+    }
+    if (!changed) return { dist, negativeCycle: false };
+  }
+  return { dist, negativeCycle: graph.nodes.length > 0 };
+}
+
+export function verifyFinal(
+  graph: Graph,
+  src: NodeId,
+  final: StepSnapshot,
+  ref: OracleReference
+): OracleReport {
+  if (ref.negativeCycle)
+    return {
+      skipped: "negative cycle: shortest paths undefined",
+      mismatches: {},
+    };
+
+  // lightest weight per (u, v), so parallel edges count as one
+  const weight = new Map<string, number>();
+  graph.edges.forEach((e) => {
+    const key = `${e.source}|${e.target}`;
+    const w = e.data?.w ?? Number(e.label);
+    weight.set(key, Math.min(w, weight.get(key) ?? Infinity));
+  });
+
+  const mismatches: Record<NodeId, string[]> = {};
+  const flag = (v: NodeId, msg: string) =>
+    (mismatches[v] = [...(mismatches[v] ?? []), msg]);
+
+  graph.nodes.forEach(({ id: v }) => {
+    const d = final.dist[v] ?? Infinity;
+    const want = ref.dist[v];
+    if (!sameDist(d, want))
+      flag(v, `dist ${fmtDist(d)}, expected ${fmtDist(want)}`);
+
+    const u = final.pred[v];
+    if (v === src) {
+      if (u !== undefined) flag(v, `source has pred ${u}`);
+      return;
+    }
+    if (u === undefined) {
+      if (d < Infinity) flag(v, "reached but no pred");
+      return;
+    }
+    const w = weight.get(`${u}|${v}`);
+    if (w === undefined) flag(v, `pred edge ${u} → ${v} does not exist`);
+    else if (!sameDist(final.dist[u] + w, d))
+      flag(
+        v,
+        `pred edge ${u} → ${v} not tight: ${final.dist[u]} + ${w} ≠ ${d}`
+      );
+
+    // zero-weight cycles are tight all the way round, so walk the chain too
+    let x: NodeId | undefined = v;
+    for (let i = 0; i < graph.nodes.length && x !== src; i++)
+      x = x === undefined ? undefined : final.pred[x];
+    if (x !== src) flag(v, `pred chain from ${v} does not reach ${src}`);
+  });
+
+  return { mismatches };
+}
@@ -0,0 +1,43 @@
+import { runDijkstraSteps } from "./dijkstra";
+import { generateGraph } from "./graph";
+import { referenceDistances } from "./oracle";
+import { pathTable, pathTo, treePairs } from "./pathTable";
+
+describe("shortest-path tree", () => {
+  const g = generateGraph(18, 0.15, 13);
+  const steps = runDijkstraSteps(g, "0");
+  const last = steps[steps.length - 1];
+
+  it("lists one shortest path per reachable target", () => {
+    const ref = referenceDistances(g, "0");
+    const { rows, unreachable } = pathTable(g, last, "0");
+    expect(rows.length + unreachable.length).toBe(g.nodes.length - 1);
+    rows.forEach((r) => {
+      expect(r.vertices[0]).toBe("0");
+      expect(r.vertices[r.vertices.length - 1]).toBe(r.target);
+      expect(r.weights).toHaveLength(r.vertices.length - 1);
+      expect(r.total).toBe(ref.dist[r.target]);
+    });
+    rows.slice(1).forEach((r, i) => {
+      expect(r.total).toBeGreaterThanOrEqual(rows[i].total);
+    });
+    unreachable.forEach((v) => expect(ref.dist[v]).toBe(Infinity));
+  });
+
+  it("draws one tree edge per vertex with a parent", () => {
+    const pairs = treePairs(last.pred);
+    const parents = Object.values(last.pred).filter((u) => u !== undefined);
+    expect(pairs.size).toBe(parents.length);
+    pairs.forEach((p) => {
+      const [u, v] = p.split("|");
+      expect(last.pred[v]).toBe(u);
+    });
+  });
+
+  it("gives up on pred cycles and unreached vertices", () => {
+    expect(pathTo({ b: "a", c: "b" }, "a", "c")).toEqual(["a", "b", "c"]);
+    expect(pathTo({ b: "c", c: "b" }, "a", "c")).toBeUndefined();
+    expect(pathTo({}, "a", "c")).toBeUndefined();
+    expect(pathTo({}, "a", "a")).toEqual(["a"]);
+  });
+});
@@ -0,0 +1,75 @@
+import { Graph, NodeId, StepSnapshot } from "./graph";
+
+// ---------------- Shortest-path tree ----------------
+// Everything a snapshot's pred pointers say about paths: the tree edges, and
+// one start → target path per vertex with the weight of every edge on it.
+
+export type PathRow = {
+  target: NodeId;
+  vertices: NodeId[]; // start first
+  weights: number[]; // one per edge of the path
+  total: number;
+};
+
+// `${pred(v)}|${v}` for every vertex with a parent.
+export function treePairs(pred: Record<NodeId, NodeId | undefined>) {
+  const pairs = new Set<string>();
+  Object.keys(pred).forEach((v) => {
+    const u = pred[v];
+    if (u !== undefined) pairs.add(`${u}|${v}`);
+  });
+  return pairs;
+}
+
+// Vertices from start to target along pred, or undefined when pred does not
+// lead back to start (not reached, or stuck on a negative cycle).
+export function pathTo(
+  pred: Record<NodeId, NodeId | undefined>,
+  start: NodeId,
+  target: NodeId
+): NodeId[] | undefined {
+  const path = [target];
+  const seen = new Set([target]);
+  let v = target;
+  while (v !== start) {
+    const u = pred[v];
+    if (u === undefined || seen.has(u)) return undefined;
+    seen.add(u);
+    path.push(u);
+    v = u;
+  }
+  return path.reverse();
+}
+
+// Rows sorted by total, then graph order; every other vertex but the start
+// is unreachable. Parallel edges count with their smallest weight.
+export function pathTable(graph: Graph, snap: StepSnapshot, start: NodeId) {
+  const weight: Record<string, number> = {};
+  graph.edges.forEach((e) => {
+    const key = `${e.source}|${e.target}`;
+    const w = e.data?.w ?? Number(e.label);
+    weight[key] = Math.min(weight[key] ?? Infinity, w);
+  });
+
+  const rows: PathRow[] = [];
+  const unreachable: NodeId[] = [];
+  graph.nodes.forEach(({ id }) => {
+    if (id === start) return;
+    const vertices =
+      (snap.dist[id] ?? Infinity) < Infinity
+        ? pathTo(snap.pred, start, id)
+        : undefined;
+    if (!vertices) return unreachable.push(id);
+    const weights = vertices
+      .slice(1)
+      .map((v, i) => weight[`${vertices[i]}|${v}`] ?? NaN);
+    rows.push({
+      target: id,
+      vertices,
+      weights,
+      total: weights.reduce((a, b) => a + b, 0),
+    });
+  });
+  rows.sort((a, b) => a.total - b.total);
+  return { rows, unreachable };
+}
@@ -0,0 +1,113 @@
+import { runPaperSteps } from "./bmssp";
+import { runDijkstraSteps } from "./dijkstra";
+import { Graph, PaperSnapshot, generateGraph } from "./graph";
+import {
+  exportSession,
+  gradeAnswer,
+  nextQuestion,
+  questionAt,
+  scoreOf,
+} from "./practice";
+
+describe("practice mode", () => {
+  const g = generateGraph(14, 0.3, 21);
+  const dijkstra = runDijkstraSteps(g, "0");
+  const bmssp = runPaperSteps(g, "0");
+
+  it("asks before every extraction and relaxation", () => {
+    [dijkstra, bmssp].forEach((steps) => {
+      const asked: number[] = [];
+      for (let q = nextQuestion(steps, 0); q; q = nextQuestion(steps, q.step))
+        asked.push(q.step);
+      const expected = steps
+        .map((s, j) => (questionAt(steps, j) ? j : -1))
+        .filter((j) => j > 0);
+      expect(asked).toEqual(expected);
+      expect(asked.length).toBeGreaterThan(0);
+    });
+    expect(
+      bmssp.some((s, j) => s.kind === "base-case" && questionAt(bmssp, j))
+    ).toBe(true);
+  });
+
+  it("grades extractions against the trace", () => {
+    const q = nextQuestion(dijkstra, 0)!;
+    expect(q.kind).toBe("settle");
+    expect(gradeAnswer(dijkstra, q, "0").correct).toBe(true);
+    const wrong = gradeAnswer(dijkstra, q, "5");
+    expect(wrong.correct).toBe(false);
+    expect(wrong.expected).toBe("0");
+    expect(wrong.explanation).toMatch(/smallest tentative distance/);
+  });
+
+  it("accepts ties up to float noise", () => {
+    const g = generateGraph(4, 0, 1);
+    const edge = (source: string, target: string, w: number) => ({
+      id: `${source}-${target}`,
+      source,
+      target,
+      label: String(w),
+      data: { w },
+    });
+    // 0.1 + 0.2 comes out a hair above 0.3
+    const tied: Graph = {
+      nodes: g.nodes,
+      edges: [edge("0", "1", 0.1), edge("1", "2", 0.2), edge("0", "3", 0.3)],
+    };
+    const steps = runDijkstraSteps(tied, "0");
+    let q = nextQuestion(steps, 0);
+    while (q && !(q.kind === "settle" && q.answer === "3"))
+      q = nextQuestion(steps, q.step);
+    expect(gradeAnswer(steps, q!, "2").correct).toBe(true);
+  });
+
+  it("takes BaseCase ties only from its heap H", () => {
+    const g = generateGraph(14, 0.3, 1);
+    g.edges.forEach((e, i) => (e.data = { w: i % 2 }));
+    const steps = runPaperSteps(g, "0");
+    const asked = [];
+    for (let q = nextQuestion(steps, 0); q; q = nextQuestion(steps, q.step))
+      if (q.kind === "settle" && q.baseCase) asked.push(q);
+    const outside = asked.flatMap((q) => {
+      const prev = steps[q.step - 1] as PaperSnapshot;
+      const d = (x: string) => prev.dist[x];
+      return Array.from(prev.frontier)
+        .filter((x) => x !== q.answer && !prev.settled.has(x))
+        .filter((x) => d(x) === d(q.answer))
+        .map((x) => {
+          expect(gradeAnswer(steps, q, x).correct).toBe(prev.H!.has(x));
+          return !prev.H!.has(x);
+        });
+    });
+    expect(outside).toContain(true);
+  });
+
+  it("grades new distances, including ∞", () => {
+    const j = dijkstra.findIndex((s) => s.relaxing?.improved);
+    const q = questionAt(dijkstra, j)!;
+    const value = dijkstra[j].dist[dijkstra[j].relaxing!.v];
+    expect(gradeAnswer(dijkstra, q, ` ${value} `).correct).toBe(true);
+    expect(gradeAnswer(dijkstra, q, String(value + 1)).correct).toBe(false);
+    expect(gradeAnswer(dijkstra, q, "∞").correct).toBe(false);
+    expect(gradeAnswer(dijkstra, q, "").correct).toBe(false);
+    expect(gradeAnswer(dijkstra, q, "x").explanation).toMatch(/drops to/);
+  });
+
+  it("exports a scored session", () => {
+    const q = nextQuestion(dijkstra, 0)!;
+    const answers = [
+      gradeAnswer(dijkstra, q, "0"),
+      gradeAnswer(dijkstra, q, "3"),
+    ];
+    expect(scoreOf(answers)).toEqual({ correct: 1, total: 2 });
+    const file = JSON.parse(
+      exportSession(
+        { algorithm: "Dijkstra", start: "0", nodes: 14, edges: 40 },
+        answers
+      )
+    );
+    expect(file.format).toBe("sssp-gym-practice");
+    expect(file.score).toEqual({ correct: 1, total: 2 });
+    expect(file.answers).toHaveLength(2);
+  });
+});
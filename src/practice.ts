@@ -0,0 +1,164 @@
+import {
+  NodeId,
+  PaperSnapshot,
+  StepSnapshot,
+  fmtDist,
+  sameDist,
+} from "./graph";
+
+// ---------------- Practice mode ----------------
+// Exercises drawn from a trace: playback pauses on the step before each
+// extraction (which vertex comes out?) and each relaxation (what is dist(v)
+// afterwards?), and the answer is graded against the step itself.
+
+export type Question =
+  | { kind: "settle"; step: number; answer: NodeId; baseCase: boolean }
+  | {
+      kind: "dist";
+      step: number;
+      u: NodeId;
+      v: NodeId;
+      w: number;
+      answer: number;
+    };
+
+export type PracticeAnswer = {
+  step: number;
+  kind: Question["kind"];
+  prompt: string;
+  given: string;
+  expected: string;
+  correct: boolean;
+  explanation: string;
+};
+
+const FILE_FORMAT = "sssp-gym-practice";
+
+export function questionAt(
+  steps: StepSnapshot[],
+  j: number
+): Question | undefined {
+  const s = steps[j];
+  if (!s || j === 0) return undefined;
+  if ((s.kind === "extract" || s.kind === "base-case") && s.current)
+    return {
+      kind: "settle",
+      step: j,
+      answer: s.current,
+      baseCase: s.kind === "base-case",
+    };
+  if (s.relaxing) {
+    const { u, v, w } = s.relaxing;
+    return { kind: "dist", step: j, u, v, w, answer: s.dist[v] ?? Infinity };
+  }
+  return undefined;
+}
+
+// First question strictly after step `from`.
+export function nextQuestion(steps: StepSnapshot[], from: number) {
+  for (let j = from + 1; j < steps.length; j++) {
+    const q = questionAt(steps, j);
+    if (q) return q;
+  }
+  return undefined;
+}
+
+export function promptOf(q: Question) {
+  if (q.kind === "settle")
+    return q.baseCase
+      ? "Which vertex does BaseCase extract from H next?"
+      : "Which vertex is extracted and settled next?";
+  return `Relax (${q.u} → ${q.v}, w=${q.w}): what is dist(${q.v}) afterwards?`;
+}
+
+// "∞", "inf" and "Infinity" all mean unreachable.
+function parseDist(given: string) {
+  const t = given.trim().toLowerCase();
+  if (t === "∞" || t === "inf" || t === "infinity") return Infinity;
+  return t === "" ? NaN : Number(t);
+}
+
+// Grades against the step the question was drawn from; for extractions any
+// vertex in the same queue tied with the trace's choice counts as correct.
+// BaseCase extracts from its own heap H, not from the whole frontier.
+export function gradeAnswer(
+  steps: StepSnapshot[],
+  q: Question,
+  given: string
+): PracticeAnswer {
+  const prev = steps[q.step - 1];
+  const d = (x: NodeId) => prev.dist[x] ?? Infinity;
+  const base = { step: q.step, kind: q.kind, prompt: promptOf(q), given };
+
+  if (q.kind === "settle") {
+    const queue = q.baseCase
+      ? (prev as PaperSnapshot).H ?? new Set<NodeId>()
+      : prev.frontier;
+    const tied =
+      given !== q.answer &&
+      queue.has(given) &&
+      !prev.settled.has(given) &&
+      sameDist(d(given), d(q.answer));
+    const correct = given === q.answer || tied;
+    const why = `${q.answer} has the smallest tentative distance, ${fmtDist(
+      d(q.answer)
+    )}, among the queued vertices`;
+    return {
+      ...base,
+      expected: q.answer,
+      correct,
+      explanation: correct
+        ? tied
+          ? `${given} ties with ${q.answer} at ${fmtDist(
+              d(given)
+            )}; the trace took ${q.answer}`
+          : why
+        : `${given} has tentative distance ${fmtDist(d(given))}, but ${why}`,
+    };
+  }
+
+  const before = d(q.v);
+  const cand = d(q.u) + q.w;
+  const value = parseDist(given);
+  return {
+    ...base,
+    expected: String(fmtDist(q.answer)),
+    correct: sameDist(value, q.answer),
+    explanation:
+      q.answer < before
+        ? `dist(${q.u}) + w = ${fmtDist(d(q.u))} + ${q.w} = ${fmtDist(
+            cand
+          )} < ${fmtDist(before)}, so dist(${q.v}) drops to ${fmtDist(
+            q.answer
+          )}`
+        : `dist(${q.u}) + w = ${fmtDist(cand)} does not improve dist(${
+            q.v
+          }), which stays ${fmtDist(before)}`,
+  };
+}
+
+export function scoreOf(answers: PracticeAnswer[]) {
+  return {
+    correct: answers.filter((a) => a.correct).length,
+    total: answers.length,
+  };
+}
+
+// JSON an instructor can collect; `context` says what was practised on.
+export function exportSession(
+  context: { algorithm: string; start: NodeId; nodes: number; edges: number },
+  answers: PracticeAnswer[]
+) {
+  return JSON.stringify(
+    {
+      format: FILE_FORMAT,
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      ...context,
+      score: scoreOf(answers),
+      answers,
+    },
+    null,
+    2
+  );
+}
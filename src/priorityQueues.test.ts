@@ -0,0 +1,49 @@
+import { runDijkstraSteps } from "./dijkstra";
+import { generateGraph, seededRandom } from "./graph";
+import { QUEUE_KINDS, createPriorityQueue } from "./priorityQueues";
+
+describe.each(QUEUE_KINDS.map((q) => q.kind))("%s queue", (kind) => {
+  it("extracts in key order with decrease-key", () => {
+    const rand = seededRandom(5);
+    const pq = createPriorityQueue(kind);
+    const keys: Record<string, number> = {};
+    let last = 0;
+    const out: number[] = [];
+    const stale: boolean[] = [];
+    for (let round = 0; round < 200; round++) {
+      const id = String(Math.floor(rand() * 40));
+      // keys never drop below the last extracted key (monotone, as in Dijkstra)
+      const key = last + Math.floor(rand() * 50);
+      if (!pq.has(id)) {
+        pq.insert(id, key);
+        keys[id] = key;
+      } else if (key < keys[id]) {
+        pq.decreaseKey(id, key);
+        keys[id] = key;
+      }
+      if (rand() < 0.4) {
+        const min = pq.extractMin()!;
+        out.push(min.key);
+        stale.push(min.key !== keys[min.id]);
+        last = min.key;
+      }
+    }
+    while (pq.size > 0) out.push(pq.extractMin()!.key);
+    expect(stale).not.toContain(true);
+    expect(out).toEqual(out.slice().sort((a, b) => a - b));
+    expect(pq.counters().extractMin).toBe(out.length);
+  });
+
+  it("drives Dijkstra to the same distances", () => {
+    const g = generateGraph(16, 0.3, 9);
+    const ref = runDijkstraSteps(g, "0", "linear");
+    const steps = runDijkstraSteps(g, "0", kind);
+    expect(steps[steps.length - 1].dist).toEqual(ref[ref.length - 1].dist);
+    const ops = steps[steps.length - 1].ops!;
+    const reached = Object.values(ref[ref.length - 1].dist).filter(
+      (d) => d < Infinity
+    ).length;
+    expect(ops.insert).toBe(reached);
+    expect(ops.extractMin).toBe(reached);
+  });
+});
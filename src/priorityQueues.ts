@@ -0,0 +1,447 @@
+import { NodeId } from "./graph";
+
+// ---------------- Priority queues for Dijkstra ----------------
+// Every queue stores each id at most once and supports decrease-key, so the
+// Dijkstra trace no longer relies on lazy deletion. Each implementation counts
+// its own operations; `comparisons` counts key comparisons only.
+
+export type QueueKind = "linear" | "binary" | "pairing" | "fibonacci" | "radix";
+
+export interface QueueCounters {
+  insert: number;
+  decreaseKey: number;
+  extractMin: number;
+  comparisons: number;
+}
+
+export interface PriorityQueue {
+  insert(id: NodeId, key: number): void;
+  decreaseKey(id: NodeId, key: number): void;
+  extractMin(): { id: NodeId; key: number } | undefined;
+  has(id: NodeId): boolean;
+  readonly size: number;
+  counters(): QueueCounters;
+}
+
+export const QUEUE_KINDS: { kind: QueueKind; label: string; bound: string }[] =
+  [
+    { kind: "linear", label: "Linear array", bound: "O(n² + m)" },
+    { kind: "binary", label: "Binary heap", bound: "O((n + m) log n)" },
+    { kind: "pairing", label: "Pairing heap", bound: "O(m log n) amortized" },
+    { kind: "fibonacci", label: "Fibonacci heap", bound: "O(m + n log n)" },
+    { kind: "radix", label: "Radix heap", bound: "O(m + n log C)" },
+  ];
+
+function newCounters(): QueueCounters {
+  return { insert: 0, decreaseKey: 0, extractMin: 0, comparisons: 0 };
+}
+
+// Unsorted array: O(1) insert and decrease-key, linear scan on extract-min.
+function createLinearQueue(): PriorityQueue {
+  const c = newCounters();
+  const items: { id: NodeId; key: number }[] = [];
+  const index = new Map<NodeId, number>();
+  return {
+    insert(id, key) {
+      c.insert++;
+      index.set(id, items.length);
+      items.push({ id, key });
+    },
+    decreaseKey(id, key) {
+      c.decreaseKey++;
+      items[index.get(id)!].key = key;
+    },
+    extractMin() {
+      if (items.length === 0) return undefined;
+      c.extractMin++;
+      let minIdx = 0;
+      for (let i = 1; i < items.length; i++) {
+        c.comparisons++;
+        if (items[i].key < items[minIdx].key) minIdx = i;
+      }
+      const min = items[minIdx];
+      const last = items.pop()!;
+      if (minIdx < items.length) {
+        items[minIdx] = last;
+        index.set(last.id, minIdx);
+      }
+      index.delete(min.id);
+      return min;
+    },
+    has: (id) => index.has(id),
+    get size() {
+      return items.length;
+    },
+    counters: () => ({ ...c }),
+  };
+}
+
+// Array-backed binary heap with a position map for decrease-key.
+function createBinaryHeap(): PriorityQueue {
+  const c = newCounters();
+  const heap: { id: NodeId; key: number }[] = [];
+  const pos = new Map<NodeId, number>();
+  const less = (i: number, j: number) => {
+    c.comparisons++;
+    return heap[i].key < heap[j].key;
+  };
+  const swap = (i: number, j: number) => {
+    [heap[i], heap[j]] = [heap[j], heap[i]];
+    pos.set(heap[i].id, i);
+    pos.set(heap[j].id, j);
+  };
+  const siftUp = (i: number) => {
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!less(i, parent)) break;
+      swap(i, parent);
+      i = parent;
+    }
+  };
+  const siftDown = (i: number) => {
+    while (true) {
+      const l = 2 * i + 1;
+      const r = l + 1;
+      let m = i;
+      if (l < heap.length && less(l, m)) m = l;
+      if (r < heap.length && less(r, m)) m = r;
+      if (m === i) break;
+      swap(i, m);
+      i = m;
+    }
+  };
+  return {
+    insert(id, key) {
+      c.insert++;
+      heap.push({ id, key });
+      pos.set(id, heap.length - 1);
+      siftUp(heap.length - 1);
+    },
+    decreaseKey(id, key) {
+      c.decreaseKey++;
+      const i = pos.get(id)!;
+      heap[i].key = key;
+      siftUp(i);
+    },
+    extractMin() {
+      if (heap.length === 0) return undefined;
+      c.extractMin++;
+      const min = heap[0];
+      const last = heap.pop()!;
+      pos.delete(min.id);
+      if (heap.length > 0) {
+        heap[0] = last;
+        pos.set(last.id, 0);
+        siftDown(0);
+      }
+      return min;
+    },
+    has: (id) => pos.has(id),
+    get size() {
+      return heap.length;
+    },
+    counters: () => ({ ...c }),
+  };
+}
+
+type PairingNode = {
+  id: NodeId;
+  key: number;
+  child?: PairingNode;
+  sibling?: PairingNode;
+  prev?: PairingNode; // parent if first child, else left sibling
+};
+
+// Pairing heap with two-pass pairing on extract-min.
+function createPairingHeap(): PriorityQueue {
+  const c = newCounters();
+  const nodes = new Map<NodeId, PairingNode>();
+  let root: PairingNode | undefined;
+
+  const meld = (a?: PairingNode, b?: PairingNode) => {
+    if (!a) return b;
+    if (!b) return a;
+    c.comparisons++;
+    if (b.key < a.key) [a, b] = [b, a];
+    b.prev = a;
+    b.sibling = a.child;
+    if (a.child) a.child.prev = b;
+    a.child = b;
+    a.sibling = undefined;
+    a.prev = undefined;
+    return a;
+  };
+
+  const cut = (x: PairingNode) => {
+    if (x.prev) {
+      if (x.prev.child === x) x.prev.child = x.sibling;
+      else x.prev.sibling = x.sibling;
+    }
+    if (x.sibling) x.sibling.prev = x.prev;
+    x.prev = undefined;
+    x.sibling = undefined;
+  };
+
+  return {
+    insert(id, key) {
+      c.insert++;
+      const x: PairingNode = { id, key };
+      nodes.set(id, x);
+      root = meld(root, x);
+    },
+    decreaseKey(id, key) {
+      c.decreaseKey++;
+      const x = nodes.get(id)!;
+      x.key = key;
+      if (x === root) return;
+      cut(x);
+      root = meld(root, x);
+    },
+    extractMin() {
+      if (!root) return undefined;
+      c.extractMin++;
+      const min = root;
+      nodes.delete(min.id);
+      const children: PairingNode[] = [];
+      for (let ch = min.child; ch; ) {
+        const next: PairingNode | undefined = ch.sibling;
+        ch.prev = undefined;
+        ch.sibling = undefined;
+        children.push(ch);
+        ch = next;
+      }
+      const paired: (PairingNode | undefined)[] = [];
+      for (let i = 0; i < children.length; i += 2)
+        paired.push(meld(children[i], children[i + 1]));
+      let merged: PairingNode | undefined;
+      for (let i = paired.length - 1; i >= 0; i--)
+        merged = meld(merged, paired[i]);
+      root = merged;
+      return { id: min.id, key: min.key };
+    },
+    has: (id) => nodes.has(id),
+    get size() {
+      return nodes.size;
+    },
+    counters: () => ({ ...c }),
+  };
+}
+
+type FibNode = {
+  id: NodeId;
+  key: number;
+  degree: number;
+  mark: boolean;
+  parent?: FibNode;
+  child?: FibNode;
+  left: FibNode;
+  right: FibNode;
+};
+
+// Fibonacci heap with consolidation on extract-min and cascading cuts.
+function createFibonacciHeap(): PriorityQueue {
+  const c = newCounters();
+  const nodes = new Map<NodeId, FibNode>();
+  let min: FibNode | undefined;
+
+  const splice = (list: FibNode, x: FibNode) => {
+    x.left = list;
+    x.right = list.right;
+    list.right.left = x;
+    list.right = x;
+  };
+  const unlink = (x: FibNode) => {
+    x.left.right = x.right;
+    x.right.left = x.left;
+    x.left = x;
+    x.right = x;
+  };
+  const addRoot = (x: FibNode) => {
+    x.parent = undefined;
+    if (!min) {
+      x.left = x;
+      x.right = x;
+      min = x;
+      return;
+    }
+    splice(min, x);
+    c.comparisons++;
+    if (x.key < min.key) min = x;
+  };
+  const listOf = (start?: FibNode) => {
+    const out: FibNode[] = [];
+    if (!start) return out;
+    let x = start;
+    do {
+      out.push(x);
+      x = x.right;
+    } while (x !== start);
+    return out;
+  };
+
+  const consolidate = (roots: FibNode[]) => {
+    const byDegree: (FibNode | undefined)[] = [];
+    roots.forEach((r) => {
+      let x = r;
+      unlink(x);
+      while (byDegree[x.degree]) {
+        let y = byDegree[x.degree]!;
+        byDegree[x.degree] = undefined;
+        c.comparisons++;
+        if (y.key < x.key) [x, y] = [y, x];
+        y.parent = x;
+        y.mark = false;
+        if (x.child) splice(x.child, y);
+        else x.child = y;
+        x.degree++;
+      }
+      byDegree[x.degree] = x;
+    });
+    min = undefined;
+    byDegree.forEach((x) => x && addRoot(x));
+  };
+
+  const cutFromParent = (x: FibNode) => {
+    const p = x.parent!;
+    if (p.child === x) p.child = x.right === x ? undefined : x.right;
+    unlink(x);
+    p.degree--;
+    x.mark = false;
+    addRoot(x);
+    return p;
+  };
+
+  return {
+    insert(id, key) {
+      c.insert++;
+      const x = { id, key, degree: 0, mark: false } as FibNode;
+      x.left = x;
+      x.right = x;
+      nodes.set(id, x);
+      addRoot(x);
+    },
+    decreaseKey(id, key) {
+      c.decreaseKey++;
+      const x = nodes.get(id)!;
+      x.key = key;
+      const p = x.parent;
+      if (p) {
+        c.comparisons++;
+        if (x.key < p.key) {
+          let y = cutFromParent(x);
+          while (y.parent) {
+            if (!y.mark) {
+              y.mark = true;
+              break;
+            }
+            y = cutFromParent(y);
+          }
+        }
+      }
+      c.comparisons++;
+      if (min && x.key < min.key) min = x;
+    },
+    extractMin() {
+      const z = min;
+      if (!z) return undefined;
+      c.extractMin++;
+      nodes.delete(z.id);
+      const children = listOf(z.child);
+      children.forEach((ch) => (ch.parent = undefined));
+      const others = listOf(z).filter((r) => r !== z);
+      min = undefined;
+      consolidate(others.concat(children));
+      return { id: z.id, key: z.key };
+    },
+    has: (id) => nodes.has(id),
+    get size() {
+      return nodes.size;
+    },
+    counters: () => ({ ...c }),
+  };
+}
+
+// Radix heap for monotone keys. Non-negative doubles order the same way as
+// their IEEE-754 bit patterns, so bucket i holds keys whose highest bit that
+// differs from the last extracted key is bit i - 1 (bucket 0: equal keys).
+// Emptying bucket 0 redistributes the first non-empty bucket around its
+// minimum, and every moved key lands in a strictly lower bucket.
+const f64 = new Float64Array(1);
+const u32 = new Uint32Array(f64.buffer);
+function bitsOf(x: number): [number, number] {
+  f64[0] = x;
+  return [u32[1], u32[0]]; // [high word, low word] on little-endian hosts
+}
+
+function createRadixHeap(): PriorityQueue {
+  const c = newCounters();
+  const buckets: Map<NodeId, number>[] = [];
+  const bucketOf = new Map<NodeId, number>();
+  let last: [number, number] = bitsOf(0);
+
+  const indexFor = (key: number) => {
+    const [hi, lo] = bitsOf(key);
+    const xh = (hi ^ last[0]) >>> 0;
+    if (xh !== 0) return 64 - Math.clz32(xh);
+    const xl = (lo ^ last[1]) >>> 0;
+    return xl === 0 ? 0 : 32 - Math.clz32(xl);
+  };
+  const place = (id: NodeId, key: number) => {
+    const i = indexFor(key);
+    if (!buckets[i]) buckets[i] = new Map();
+    buckets[i].set(id, key);
+    bucketOf.set(id, i);
+  };
+
+  return {
+    insert(id, key) {
+      c.insert++;
+      place(id, key);
+    },
+    decreaseKey(id, key) {
+      c.decreaseKey++;
+      buckets[bucketOf.get(id)!].delete(id);
+      place(id, key);
+    },
+    extractMin() {
+      if (bucketOf.size === 0) return undefined;
+      c.extractMin++;
+      if (!buckets[0]?.size) {
+        const i = buckets.findIndex((b) => b && b.size > 0);
+        const moving = Array.from(buckets[i].entries());
+        buckets[i].clear();
+        let lo = moving[0][1];
+        for (let j = 1; j < moving.length; j++) {
+          c.comparisons++;
+          if (moving[j][1] < lo) lo = moving[j][1];
+        }
+        last = bitsOf(lo);
+        moving.forEach(([id, key]) => place(id, key));
+      }
+      const [id, key] = buckets[0].entries().next().value as [NodeId, number];
+      buckets[0].delete(id);
+      bucketOf.delete(id);
+      return { id, key };
+    },
+    has: (id) => bucketOf.has(id),
+    get size() {
+      return bucketOf.size;
+    },
+    counters: () => ({ ...c }),
+  };
+}
+
+export function createPriorityQueue(kind: QueueKind): PriorityQueue {
+  switch (kind) {
+    case "linear":
+      return createLinearQueue();
+    case "binary":
+      return createBinaryHeap();
+    case "pairing":
+      return createPairingHeap();
+    case "fibonacci":
+      return createFibonacciHeap();
+    case "radix":
+      return createRadixHeap();
+  }
+}
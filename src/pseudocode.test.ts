@@ -0,0 +1,44 @@
+import { runPaperSteps } from "./bmssp";
+import { runDijkstraSteps } from "./dijkstra";
+import { generateGraph } from "./graph";
+import { BMSSP_CODE, DIJKSTRA_CODE, pseudocodeLocals } from "./pseudocode";
+
+describe("pseudocode", () => {
+  const g = generateGraph(24, 0.2, 3);
+  const ids = (code: typeof BMSSP_CODE) =>
+    code.flatMap((p) => p.lines.map((l) => l.id));
+
+  it("gives every line a unique id", () => {
+    const all = [...ids(DIJKSTRA_CODE), ...ids(BMSSP_CODE)];
+    expect(new Set(all).size).toBe(all.length);
+  });
+
+  it("tags every step with a line of its listing", () => {
+    const cases = [
+      { steps: runDijkstraSteps(g, "0"), code: DIJKSTRA_CODE },
+      { steps: runPaperSteps(g, "0"), code: BMSSP_CODE },
+    ];
+    cases.forEach(({ steps, code }) => {
+      const known = new Set(ids(code));
+      steps.forEach((s) => expect(known.has(s.line!)).toBe(true));
+    });
+  });
+
+  it("maps relax steps to the test or the update line", () => {
+    runDijkstraSteps(g, "0")
+      .filter((s) => s.relaxing)
+      .forEach((s) =>
+        expect(s.line).toBe(
+          s.relaxing!.improved ? "dijkstra.update" : "dijkstra.test"
+        )
+      );
+  });
+
+  it("lists the step's local variables", () => {
+    const relax = runPaperSteps(g, "0").find((s) => s.relaxing)!;
+    const names = pseudocodeLocals(relax).map((x) => x.name);
+    expect(names).toEqual(["u", "v", "w", "l", "B"]);
+    const init = runDijkstraSteps(g, "0")[0];
+    expect(pseudocodeLocals(init)).toEqual([]);
+  });
+});
@@ -0,0 +1,138 @@
+import { PaperSnapshot, StepSnapshot, fmtDist } from "./graph";
+
+// ---------------- Pseudocode ----------------
+// Algorithm text per engine. Engines tag each snapshot with the id of the
+// line it executes (`line`); a line's id is unique across all listings, and
+// the first line of a procedure is its signature.
+
+export type PseudocodeLine = { id: string; text: string; indent: number };
+
+export type Procedure = { name: string; lines: PseudocodeLine[] };
+
+const line = (id: string, indent: number, text: string): PseudocodeLine => ({
+  id,
+  text,
+  indent,
+});
+
+export const DIJKSTRA_CODE: Procedure[] = [
+  {
+    name: "Dijkstra",
+    lines: [
+      line("dijkstra", 0, "Dijkstra(G, s)"),
+      line("dijkstra.init", 1, "dist[·] ← ∞; dist[s] ← 0; Q ← {s}"),
+      line("dijkstra.loop", 1, "while Q ≠ ∅ do"),
+      line("dijkstra.extract", 2, "u ← Extract-Min(Q); settle u"),
+      line("dijkstra.edges", 2, "for each edge (u, v, w) do"),
+      line("dijkstra.test", 3, "if dist[u] + w < dist[v] then"),
+      line("dijkstra.update", 4, "dist[v] ← dist[u] + w; pred[v] ← u"),
+      line("dijkstra.queue", 4, "Insert or Decrease-Key(Q, v, dist[v])"),
+    ],
+  },
+];
+
+// Algorithms 1–3 of Duan et al., with the tie handling of bmssp.ts folded
+// into the ≤ tests.
+export const BMSSP_CODE: Procedure[] = [
+  {
+    name: "Main",
+    lines: [
+      line("main", 0, "SSSP(G, s)"),
+      line(
+        "main.init",
+        1,
+        "dist[s] ← 0; k ← ⌊log^{1/3} n⌋; t ← ⌊log^{2/3} n⌋; L ← ⌈log n / t⌉"
+      ),
+      line("main.call", 1, "BMSSP(L, ∞, {s})"),
+      line("main.done", 1, "return dist"),
+    ],
+  },
+  {
+    name: "BMSSP (Algorithm 3)",
+    lines: [
+      line("bmssp", 0, "BMSSP(l, B, S)"),
+      line("bmssp.base", 1, "if l = 0 then return BaseCase(B, S)"),
+      line("bmssp.pivots", 1, "P, W ← FindPivots(B, S)"),
+      line("bmssp.init", 1, "D.Initialize(M = 2^{(l−1)t}, B); D.Insert(P)"),
+      line("bmssp.loop", 1, "while |U| < k·2^{lt} and D ≠ ∅ do"),
+      line("bmssp.pull", 2, "i ← i + 1; B_i, S_i ← D.Pull()"),
+      line(
+        "bmssp.recurse",
+        2,
+        "B′_i, U_i ← BMSSP(l − 1, B_i, S_i); U ← U ∪ U_i"
+      ),
+      line("bmssp.edges", 2, "for each edge (u, v, w) with u ∈ U_i do"),
+      line(
+        "bmssp.relax",
+        3,
+        "if dist[u] + w ≤ dist[v] then dist[v] ← dist[u] + w"
+      ),
+      line("bmssp.insert", 4, "if dist[u] + w ∈ [B_i, B) then D.Insert(v)"),
+      line("bmssp.k", 4, "else if dist[u] + w ∈ [B′_i, B_i) then K ← K ∪ {v}"),
+      line(
+        "bmssp.prepend",
+        2,
+        "D.BatchPrepend(K ∪ {x ∈ S_i : dist[x] ∈ [B′_i, B_i)})"
+      ),
+      line(
+        "bmssp.return",
+        1,
+        "return B′ ← min(B′_i, B), U ∪ {x ∈ W : dist[x] < B′}"
+      ),
+    ],
+  },
+  {
+    name: "FindPivots (Algorithm 1)",
+    lines: [
+      line("pivots", 0, "FindPivots(B, S)"),
+      line("pivots.init", 1, "W ← S; W_0 ← S"),
+      line("pivots.loop", 1, "for i ← 1 to k do"),
+      line(
+        "pivots.relax",
+        2,
+        "relax edges out of W_{i−1}; W_i ← reached v with dist[v] < B"
+      ),
+      line("pivots.grow", 2, "W ← W ∪ W_i"),
+      line("pivots.big", 2, "if |W| > k|S| then return P ← S, W"),
+      line("pivots.forest", 1, "F ← tight edges (u, v) with u, v ∈ W"),
+      line(
+        "pivots.done",
+        1,
+        "return P ← roots in S of trees in F with ≥ k vertices, W"
+      ),
+    ],
+  },
+  {
+    name: "BaseCase (Algorithm 2)",
+    lines: [
+      line("base", 0, "BaseCase(B, S)"),
+      line("base.init", 1, "U_0 ← ∅; H ← S"),
+      line("base.loop", 1, "while H ≠ ∅ and |U_0| < k + 1 do"),
+      line("base.extract", 2, "u ← H.Extract-Min(); U_0 ← U_0 ∪ {u}"),
+      line("base.edges", 2, "for each edge (u, v, w) do"),
+      line("base.test", 3, "if dist[u] + w ≤ dist[v] and dist[u] + w < B then"),
+      line("base.update", 4, "dist[v] ← dist[u] + w; H.Insert(v)"),
+      line("base.small", 1, "if |U_0| ≤ k then return B′ ← B, U_0"),
+      line(
+        "base.split",
+        1,
+        "else return B′ ← max dist over U_0, {v ∈ U_0 : dist[v] < B′}"
+      ),
+    ],
+  },
+];
+
+// Local variables worth showing beside the highlighted line.
+export function pseudocodeLocals(snap: StepSnapshot) {
+  const p = snap as Partial<PaperSnapshot>;
+  const out: { name: string; value: string }[] = [];
+  const u = snap.relaxing?.u ?? snap.current;
+  if (u !== undefined) out.push({ name: "u", value: u });
+  if (snap.relaxing) {
+    out.push({ name: "v", value: snap.relaxing.v });
+    out.push({ name: "w", value: String(snap.relaxing.w) });
+  }
+  if (p.level !== undefined) out.push({ name: "l", value: String(p.level) });
+  if (p.B !== undefined) out.push({ name: "B", value: String(fmtDist(p.B)) });
+  return out;
+}
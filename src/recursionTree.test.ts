@@ -0,0 +1,42 @@
+import { runPaperSteps } from "./bmssp";
+import { generateGraph } from "./graph";
+import { activeCall, callState, callTree } from "./recursionTree";
+
+describe("BMSSP recursion tree", () => {
+  const steps = runPaperSteps(generateGraph(30, 0.15, 7), "0");
+  const calls = callTree(steps);
+
+  it("has one root and links every call to its caller", () => {
+    expect(calls[0].parent).toBeUndefined();
+    expect(calls.filter((c) => c.parent === undefined)).toHaveLength(1);
+    calls.slice(1).forEach((c) => {
+      const parent = calls.find((p) => p.id === c.parent)!;
+      expect(parent.children).toContain(c.id);
+      expect(c.depth).toBe(parent.depth + 1);
+      expect(c.frame.level).toBe(parent.frame.level - 1);
+      expect(c.first).toBeGreaterThan(parent.first);
+      expect(c.last).toBeLessThanOrEqual(parent.last);
+    });
+  });
+
+  it("starts each call on its call step and records its return", () => {
+    calls.forEach((c) => {
+      expect(steps[c.first].kind).toBe("call");
+      expect(activeCall(steps[c.first])).toBe(c.id);
+      expect(c.returnedAt).toBe(c.last);
+      expect(c.frame.Bp).toBeDefined();
+      expect(c.frame.returned?.size).toBe(c.frame.U.size);
+    });
+    calls
+      .filter((c) => c.frame.level > 0)
+      .forEach((c) => expect(c.pivotsAt).toBeDefined());
+  });
+
+  it("tracks each call's state as the trace plays", () => {
+    const child = calls[1];
+    expect(callState(child, steps[0])).toBe("pending");
+    expect(callState(child, steps[child.first])).toBe("active");
+    expect(callState(calls[0], steps[child.first])).toBe("running");
+    expect(callState(child, steps[steps.length - 1])).toBe("returned");
+  });
+});
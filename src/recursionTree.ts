@@ -0,0 +1,59 @@
+import { BmsspFrame, PaperSnapshot } from "./graph";
+
+// ---------------- BMSSP recursion tree ----------------
+// Every BMSSP(l, B, S) call of a trace, rebuilt from the call stacks the
+// snapshots carry. Call ids grow in call order, so the list is in preorder.
+
+export type CallNode = {
+  id: number;
+  parent?: number;
+  children: number[];
+  depth: number; // 0 for the top-level call
+  frame: BmsspFrame; // the call as last seen, returned U and B′ included
+  first: number; // step index of the call
+  last: number; // last step with the call on the stack
+  pivotsAt?: number; // first step where P is known
+  returnedAt?: number; // step that returns B′ and U
+};
+
+export type CallState = "pending" | "active" | "running" | "returned";
+
+export function callTree(steps: PaperSnapshot[]): CallNode[] {
+  const calls = new Map<number, CallNode>();
+  steps.forEach((s, i) =>
+    (s.stack ?? []).forEach((frame, depth) => {
+      let call = calls.get(frame.id);
+      if (!call) {
+        const parent = depth > 0 ? s.stack[depth - 1].id : undefined;
+        call = {
+          id: frame.id,
+          parent,
+          children: [],
+          depth,
+          frame,
+          first: i,
+          last: i,
+        };
+        calls.set(frame.id, call);
+        if (parent !== undefined) calls.get(parent)?.children.push(frame.id);
+      }
+      call.frame = frame;
+      call.last = i;
+      if (frame.P && call.pivotsAt === undefined) call.pivotsAt = i;
+      if (frame.returned && call.returnedAt === undefined) call.returnedAt = i;
+    })
+  );
+  return Array.from(calls.values()).sort((a, b) => a.id - b.id);
+}
+
+// Innermost call on the stack at this step.
+export function activeCall(snap: PaperSnapshot) {
+  return snap.stack?.[snap.stack.length - 1]?.id;
+}
+
+// "active" is the innermost call, "running" its callers.
+export function callState(call: CallNode, snap: PaperSnapshot): CallState {
+  if (activeCall(snap) === call.id) return "active";
+  if (snap.stack?.some((f) => f.id === call.id)) return "running";
+  return snap.step < call.first ? "pending" : "returned";
+}
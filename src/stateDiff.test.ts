@@ -0,0 +1,53 @@
+import { runDialSteps } from "./buckets";
+import { runDijkstraSteps } from "./dijkstra";
+import { generateGraph } from "./graph";
+import { diffRows, relaxCounts } from "./stateDiff";
+
+describe("state diff", () => {
+  const g = generateGraph(12, 0.3, 5);
+  const ids = g.nodes.map((n) => n.id);
+  const dijkstra = runDijkstraSteps(g, "0");
+  const dial = runDialSteps(g, "0");
+  const end = (steps: unknown[]) => steps.length - 1;
+
+  it("agrees at the end of two correct runs", () => {
+    const rows = diffRows(
+      ids,
+      { steps: dijkstra, index: end(dijkstra) },
+      { steps: dial, index: end(dial) }
+    );
+    rows.forEach((r) => {
+      expect(r.differs.dist).toBe(false);
+      expect(r.differs.settled).toBe(false);
+    });
+    expect(rows[0].order).toEqual([1, 1]);
+  });
+
+  it("flags differences mid-run", () => {
+    const rows = diffRows(
+      ids,
+      { steps: dijkstra, index: end(dijkstra) },
+      { steps: dijkstra, index: 1 }
+    );
+    const reached = rows.filter((r) => r.id !== "0" && r.dist[0] < Infinity);
+    expect(reached.length).toBeGreaterThan(0);
+    reached.forEach((r) => {
+      expect(r.differs.dist).toBe(true);
+      expect(r.differs.settled).toBe(true);
+      expect(r.order[1]).toBeUndefined();
+    });
+  });
+
+  it("counts relaxations per target vertex", () => {
+    const counts = relaxCounts(dijkstra, end(dijkstra));
+    const relaxed = dijkstra.filter((s) => s.relaxing).length;
+    expect(Object.values(counts).reduce((a, b) => a + b, 0)).toBe(relaxed);
+    // every edge out of a reachable vertex is relaxed exactly once
+    const indegree: Record<string, number> = {};
+    g.edges
+      .filter((e) => dijkstra[end(dijkstra)].settled.has(e.source))
+      .forEach((e) => (indegree[e.target] = (indegree[e.target] ?? 0) + 1));
+    expect(counts).toEqual(indegree);
+    expect(relaxCounts(dijkstra, 0)).toEqual({});
+  });
+});
@@ -0,0 +1,63 @@
+import { settleOrder } from "./alignment";
+import { NodeId, StepSnapshot, sameDist } from "./graph";
+
+// ---------------- State diff ----------------
+// Merges two traces at their current steps into one row per vertex, so the
+// panels can be compared without reading two tables side by side.
+
+export type DiffSide = { steps: StepSnapshot[]; index: number };
+
+export type DiffRow = {
+  id: NodeId;
+  dist: [number, number];
+  pred: [NodeId | undefined, NodeId | undefined];
+  settled: [boolean, boolean];
+  order: [number | undefined, number | undefined]; // 1-based settle position
+  relax: [number, number]; // relaxations into the vertex so far
+  differs: { dist: boolean; pred: boolean; settled: boolean };
+};
+
+// Relaxations per target vertex in steps 1..upTo.
+export function relaxCounts(
+  steps: StepSnapshot[],
+  upTo: number
+): Record<NodeId, number> {
+  const counts: Record<NodeId, number> = {};
+  steps.slice(1, upTo + 1).forEach((s) => {
+    if (s.relaxing) counts[s.relaxing.v] = (counts[s.relaxing.v] ?? 0) + 1;
+  });
+  return counts;
+}
+
+export function diffRows(ids: NodeId[], a: DiffSide, b: DiffSide): DiffRow[] {
+  const sides = [a, b].map(({ steps, index }) => {
+    const order: Record<NodeId, number> = {};
+    settleOrder(steps, index).forEach((v, i) => (order[v] = i + 1));
+    return { snap: steps[index], order, relax: relaxCounts(steps, index) };
+  });
+  const [x, y] = sides;
+  return ids.map((id) => {
+    const dist: [number, number] = [
+      x.snap.dist[id] ?? Infinity,
+      y.snap.dist[id] ?? Infinity,
+    ];
+    const pred: DiffRow["pred"] = [x.snap.pred[id], y.snap.pred[id]];
+    const settled: [boolean, boolean] = [
+      x.snap.settled.has(id),
+      y.snap.settled.has(id),
+    ];
+    return {
+      id,
+      dist,
+      pred,
+      settled,
+      order: [x.order[id], y.order[id]],
+      relax: [x.relax[id] ?? 0, y.relax[id] ?? 0],
+      differs: {
+        dist: !sameDist(dist[0], dist[1]),
+        pred: pred[0] !== pred[1],
+        settled: settled[0] !== settled[1],
+      },
+    };
+  });
+}
@@ -0,0 +1,72 @@
+// ---------------- Small UI bits (no Tailwind) ----------------
+export const styles = {
+  page: {
+    minHeight: "100vh",
+    width: "100%",
+    background: "#f8fafc",
+    color: "#0f172a",
+    fontFamily:
+      "system-ui, -apple-system, Segoe UI, Roboto, Ubuntu, Cantarell, Noto Sans, sans-serif",
+  },
+  container: { maxWidth: 1200, margin: "0 auto", padding: 16 },
+  h1: { fontSize: 22, fontWeight: 700, margin: 0 },
+  p: { marginTop: 6, fontSize: 13, color: "#475569" },
+  grid3: {
+    display: "grid",
+    gridTemplateColumns: "repeat(3, minmax(0,1fr))",
+    gap: 16,
+  },
+  card: {
+    border: "1px solid #e2e8f0",
+    background: "#fff",
+    borderRadius: 12,
+    padding: 12,
+  },
+  labelCol: { display: "flex", flexDirection: "column", gap: 6, fontSize: 13 },
+  button: {
+    padding: "6px 10px",
+    borderRadius: 8,
+    border: "1px solid #cbd5e1",
+    background: "#e2e8f0",
+    cursor: "pointer" as const,
+  },
+  buttonPrimary: {
+    padding: "6px 10px",
+    borderRadius: 8,
+    border: "1px solid #065f46",
+    background: "#059669",
+    color: "#fff",
+    cursor: "pointer" as const,
+  },
+  checkboxRow: { display: "flex", alignItems: "center", gap: 8 },
+  small: { fontSize: 12, color: "#64748b" },
+  flowWrap: { height: 420, width: "100%" },
+  twoCols: {
+    display: "grid",
+    gridTemplateColumns: "repeat(2, minmax(0,1fr))",
+    gap: 16,
+    marginTop: 16,
+  },
+  legendRow: {
+    display: "grid",
+    gridTemplateColumns: "repeat(3, minmax(0,1fr))",
+    gap: 8,
+    fontSize: 12,
+  },
+  legendItem: { display: "flex", alignItems: "center", gap: 8 },
+  dot: (bg: string) => ({
+    width: 12,
+    height: 12,
+    borderRadius: 4,
+    background: bg,
+    display: "inline-block",
+  }),
+  table: { width: "100%", borderCollapse: "collapse" as const, fontSize: 12 },
+  th: {
+    textAlign: "left" as const,
+    background: "#f1f5f9",
+    border: "1px solid #e2e8f0",
+    padding: "6px 8px",
+  },
+  td: { border: "1px solid #e2e8f0", padding: "6px 8px" },
+};
@@ -0,0 +1,48 @@
+import { runDijkstraSteps } from "./dijkstra";
+import { runPaperSteps } from "./bmssp";
+import { generateGraph } from "./graph";
+import { eventRuns, findEvent, kindsIn } from "./timeline";
+
+describe("timeline", () => {
+  const g = generateGraph(12, 0.3, 7);
+
+  it("tags every Dijkstra step with its event kind", () => {
+    const steps = runDijkstraSteps(g, "0");
+    expect(steps[0].kind).toBe("init");
+    steps
+      .slice(1)
+      .forEach((s) =>
+        expect(s.kind).toBe(
+          !s.relaxing ? "extract" : s.relaxing.improved ? "relax" : "relax-noop"
+        )
+      );
+  });
+
+  it("tags the BMSSP phases", () => {
+    const steps = runPaperSteps(g, "0");
+    const kinds = kindsIn(steps);
+    ["init", "find-pivots", "base-case", "call", "chunk-end", "done"].forEach(
+      (k) => expect(kinds).toContain(k)
+    );
+    steps
+      .filter((s) => s.description.startsWith("BaseCase extract"))
+      .forEach((s) => expect(s.kind).toBe("base-case"));
+  });
+
+  it("merges runs and finds the next and previous event", () => {
+    const steps = runDijkstraSteps(g, "0");
+    const runs = eventRuns(steps);
+    expect(runs[0]).toEqual({ kind: "init", from: 0, to: 0 });
+    expect(runs[runs.length - 1].to).toBe(steps.length - 1);
+    runs.slice(1).forEach((r, i) => {
+      expect(r.from).toBe(runs[i].to + 1);
+      expect(r.kind).not.toBe(runs[i].kind);
+    });
+
+    const second = findEvent(steps, 1, "extract", 1)!;
+    expect(second).toBeGreaterThan(1);
+    expect(steps[second].kind).toBe("extract");
+    expect(findEvent(steps, second, "extract", -1)).toBe(1);
+    expect(findEvent(steps, 0, "init", -1)).toBeUndefined();
+  });
+});
@@ -0,0 +1,54 @@
+import { EventKind, StepSnapshot } from "./graph";
+
+// ---------------- Timeline ----------------
+// Marker colors per event kind, in legend order.
+export type EventStyle = { kind: EventKind; label: string; color: string };
+
+export const EVENT_KINDS: EventStyle[] = [
+  { kind: "init", label: "Init", color: "#94a3b8" },
+  { kind: "extract", label: "Extract-min", color: "#2563eb" },
+  { kind: "relax", label: "Improving relax", color: "#10b981" },
+  { kind: "relax-noop", label: "Non-improving relax", color: "#cbd5e1" },
+  { kind: "find-pivots", label: "FindPivots", color: "#a855f7" },
+  { kind: "base-case", label: "BaseCase extract", color: "#f59e0b" },
+  { kind: "call", label: "Call / Pull", color: "#64748b" },
+  { kind: "chunk-end", label: "Chunk end / B′", color: "#ec4899" },
+  { kind: "phase", label: "Phase / round", color: "#0ea5e9" },
+  { kind: "cycle", label: "Negative cycle", color: "#dc2626" },
+  { kind: "done", label: "Done", color: "#0f172a" },
+];
+
+export function eventColor(kind: EventKind) {
+  return EVENT_KINDS.find((e) => e.kind === kind)?.color ?? "#94a3b8";
+}
+
+// Consecutive steps of one kind merged, so a long trace draws as runs
+// rather than one element per step.
+export function eventRuns(steps: StepSnapshot[]) {
+  const runs: { kind: EventKind; from: number; to: number }[] = [];
+  steps.forEach((s, i) => {
+    const last = runs[runs.length - 1];
+    if (last && last.kind === s.kind) last.to = i;
+    else runs.push({ kind: s.kind, from: i, to: i });
+  });
+  return runs;
+}
+
+// Kinds that occur in a trace, in legend order.
+export function kindsIn(steps: StepSnapshot[]): EventKind[] {
+  const seen = new Set(steps.map((s) => s.kind));
+  return EVENT_KINDS.map((e) => e.kind).filter((k) => seen.has(k));
+}
+
+// Index of the nearest step of the given kind strictly after (dir = 1) or
+// before (dir = -1) `from`; undefined when there is none.
+export function findEvent(
+  steps: StepSnapshot[],
+  from: number,
+  kind: EventKind,
+  dir: 1 | -1
+): number | undefined {
+  for (let i = from + dir; i >= 0 && i < steps.length; i += dir)
+    if (steps[i].kind === kind) return i;
+  return undefined;
+}
@@ -0,0 +1,75 @@
+import { compressToEncodedURIComponent } from "lz-string";
+import { generateGraph } from "./graph";
+import {
+  MAX_EMBEDDED_GRAPH,
+  UrlState,
+  compressGraph,
+  decodeHash,
+  decompressGraph,
+  encodeHash,
+} from "./urlState";
+
+describe("URL state", () => {
+  it("round-trips settings, endpoints and panel positions", () => {
+    const state: UrlState = {
+      family: "random",
+      params: { n: 14, density: 0.3 },
+      seed: 79,
+      start: "0",
+      end: "13",
+      panels: [
+        { algo: "bmssp", index: 37, options: {} },
+        { algo: "deltaStepping", index: 4, options: { delta: 2.5 } },
+        { algo: "dijkstra", index: 0, options: { queue: "pairing" } },
+      ],
+      locked: true,
+      align: "order",
+      orderFrom: 1,
+      speedMs: 300,
+      constantDegree: false,
+      layout: "radial",
+    };
+    expect(decodeHash(encodeHash(state))).toEqual(state);
+  });
+
+  it("drops what it cannot read", () => {
+    expect(decodeHash("#seed=abc&n=12&panel=&speed=")).toEqual({
+      params: { n: 12 },
+    });
+    expect(decodeHash("")).toEqual({});
+    const long = "x".repeat(MAX_EMBEDDED_GRAPH + 1);
+    expect(decodeHash(`#g=${long}`).graph).toBeUndefined();
+  });
+
+  it("embeds custom graphs compressed", () => {
+    const g = generateGraph(12, 0.4, 5);
+    g.nodes[3].position = { x: 120, y: -40 };
+    const text = compressGraph(g);
+    expect(decodeHash(encodeHash({ graph: text })).graph).toBe(text);
+    expect(text.length).toBeLessThan(JSON.stringify(g).length / 4);
+
+    const back = decompressGraph(text);
+    expect(back.nodes.map((n) => [n.id, n.data.label])).toEqual(
+      g.nodes.map((n) => [n.id, n.data.label])
+    );
+    expect(back.nodes[3].position).toEqual({ x: 120, y: -40 });
+    expect(back.edges.map((e) => [e.source, e.target, e.data!.w])).toEqual(
+      g.edges.map((e) => [e.source, e.target, e.data!.w])
+    );
+  });
+
+  it("rejects embedded graphs that do not fit together", () => {
+    const pack = (c: object) =>
+      compressToEncodedURIComponent(JSON.stringify(c));
+    const bad = [
+      { l: ["a", "b"], e: [[0, 2, 1]] },
+      { l: ["a", "b"], e: [[0, 0.5, 1]] },
+      { l: ["a", "b"], e: [[0, 1, 1]], p: [[0, 0]] },
+      { l: ["a", "b"], e: [[0, 1, "x"]] },
+    ];
+    bad.forEach((c) => expect(() => decompressGraph(pack(c))).toThrow());
+    expect(
+      decompressGraph(pack({ l: ["a", "b"], e: [[0, 1, 2]] })).edges
+    ).toHaveLength(1);
+  });
+});
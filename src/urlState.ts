@@ -0,0 +1,223 @@
+import { MarkerType, Position } from "@xyflow/react";
+import {
+  compressToEncodedURIComponent,
+  decompressFromEncodedURIComponent,
+} from "lz-string";
+import { Graph, NodeId } from "./graph";
+import { AlignMode } from "./alignment";
+import { GeneratorParams } from "./generators";
+import { LayoutKind } from "./layout";
+import { validateGraph } from "./validateGraph";
+
+// ---------------- URL state ----------------
+// Everything needed to reproduce a view lives in the location hash, e.g.
+// #family=random&n=14&density=0.3&seed=79&start=0&end=13&panel=bmssp:37
+// Generator parameters use their own keys; each panel is
+// "algo:index[:option=value...]". A small custom graph rides along in "g" as
+// lz-string compressed JSON.
+
+export type PanelUrlState = {
+  algo: string;
+  index: number;
+  options: Record<string, string | number>;
+};
+
+export type UrlState = {
+  family?: string;
+  params?: GeneratorParams;
+  seed?: number;
+  start?: NodeId;
+  end?: NodeId;
+  panels?: PanelUrlState[];
+  locked?: boolean;
+  align?: AlignMode;
+  orderFrom?: "distance" | number; // panel position when following a panel
+  speedMs?: number;
+  constantDegree?: boolean;
+  layout?: LayoutKind;
+  graph?: string; // compressGraph() output
+};
+
+// Longest "g" value we put in a link; larger graphs are left out.
+export const MAX_EMBEDDED_GRAPH = 2000;
+
+const RESERVED = new Set([
+  "family",
+  "seed",
+  "start",
+  "end",
+  "panel",
+  "locked",
+  "align",
+  "order",
+  "speed",
+  "cd",
+  "layout",
+  "g",
+]);
+
+const num = (v: string | null) =>
+  v !== null && v !== "" && Number.isFinite(Number(v)) ? Number(v) : undefined;
+
+export function encodeHash(state: UrlState): string {
+  const q = new URLSearchParams();
+  if (state.family !== undefined) q.set("family", state.family);
+  Object.entries(state.params ?? {}).forEach(([k, v]) => q.set(k, String(v)));
+  if (state.seed !== undefined) q.set("seed", String(state.seed));
+  if (state.start !== undefined) q.set("start", state.start);
+  if (state.end !== undefined) q.set("end", state.end);
+  (state.panels ?? []).forEach((p) =>
+    q.append(
+      "panel",
+      [
+        p.algo,
+        p.index,
+        ...Object.entries(p.options).map(([k, v]) => `${k}=${v}`),
+      ].join(":")
+    )
+  );
+  if (state.locked !== undefined) q.set("locked", state.locked ? "1" : "0");
+  if (state.align !== undefined) q.set("align", state.align);
+  if (state.orderFrom !== undefined) q.set("order", String(state.orderFrom));
+  if (state.speedMs !== undefined) q.set("speed", String(state.speedMs));
+  if (state.constantDegree !== undefined)
+    q.set("cd", state.constantDegree ? "1" : "0");
+  if (state.layout !== undefined) q.set("layout", state.layout);
+  if (state.graph !== undefined) q.set("g", state.graph);
+  return "#" + q.toString();
+}
+
+// Unknown or malformed entries are dropped rather than reported: a link that
+// is half right still restores what it can. Values are only parsed here, and
+// resolveUrlState clamps them to what the controls allow; an embedded graph
+// longer than any link we write is dropped.
+export function decodeHash(hash: string): UrlState {
+  const q = new URLSearchParams(hash.replace(/^#/, ""));
+  const state: UrlState = {};
+  const params: GeneratorParams = {};
+  q.forEach((v, k) => {
+    if (!RESERVED.has(k) && num(v) !== undefined) params[k] = num(v)!;
+  });
+  if (Object.keys(params).length > 0) state.params = params;
+
+  if (q.has("family")) state.family = q.get("family")!;
+  state.seed = num(q.get("seed"));
+  if (q.has("start")) state.start = q.get("start")!;
+  if (q.has("end")) state.end = q.get("end")!;
+  const panels = q
+    .getAll("panel")
+    .map((text) => {
+      const [algo, index, ...rest] = text.split(":");
+      const options: Record<string, string | number> = {};
+      rest.forEach((kv) => {
+        const [k, v = ""] = kv.split("=");
+        if (k) options[k] = num(v) ?? v;
+      });
+      return { algo, index: num(index) ?? 0, options };
+    })
+    .filter((p) => p.algo);
+  if (panels.length > 0) state.panels = panels;
+  if (q.has("locked")) state.locked = q.get("locked") === "1";
+  if (q.has("align")) state.align = q.get("align") as AlignMode;
+  if (q.has("order"))
+    state.orderFrom = num(q.get("order")) ?? ("distance" as const);
+  state.speedMs = num(q.get("speed"));
+  if (q.has("cd")) state.constantDegree = q.get("cd") === "1";
+  if (q.has("layout")) state.layout = q.get("layout") as LayoutKind;
+  if (q.has("g") && q.get("g")!.length <= MAX_EMBEDDED_GRAPH)
+    state.graph = q.get("g")!;
+
+  Object.keys(state).forEach((k) => {
+    if (state[k as keyof UrlState] === undefined)
+      delete state[k as keyof UrlState];
+  });
+  return state;
+}
+
+// ---------------- Embedded graphs ----------------
+// Compact JSON first (labels, [source, target, weight] by node index, ids and
+// positions only when they carry information), then lz-string.
+type CompactGraph = {
+  l: string[];
+  e: [number, number, number][];
+  i?: NodeId[];
+  p?: [number, number][];
+};
+
+function toCompact(graph: Graph): CompactGraph {
+  const index: Record<NodeId, number> = {};
+  graph.nodes.forEach((n, i) => (index[n.id] = i));
+  const compact: CompactGraph = {
+    l: graph.nodes.map((n) => n.data.label),
+    e: graph.edges.map((e) => [
+      index[e.source],
+      index[e.target],
+      e.data?.w ?? Number(e.label),
+    ]),
+  };
+  if (graph.nodes.some((n, i) => n.id !== String(i)))
+    compact.i = graph.nodes.map((n) => n.id);
+  if (graph.nodes.some((n) => n.position.x !== 0 || n.position.y !== 0))
+    compact.p = graph.nodes.map((n) => [
+      Math.round(n.position.x),
+      Math.round(n.position.y),
+    ]);
+  return compact;
+}
+
+// Throws on indices out of range and on arrays of the wrong length.
+function fromCompact(c: CompactGraph): Graph {
+  const n = Array.isArray(c.l) ? c.l.length : -1;
+  const index = (x: number) => Number.isInteger(x) && x >= 0 && x < n;
+  if (
+    n < 0 ||
+    !Array.isArray(c.e) ||
+    !c.e.every((e) => Array.isArray(e) && index(e[0]) && index(e[1])) ||
+    (c.i !== undefined && (!Array.isArray(c.i) || c.i.length !== n)) ||
+    (c.p !== undefined &&
+      (!Array.isArray(c.p) ||
+        !c.p.every((xy) => Array.isArray(xy) && xy.length === 2) ||
+        c.p.length !== n))
+  )
+    throw new Error("Embedded graph is damaged");
+  const ids = (c.i ?? c.l.map((_, i) => i)).map(String);
+  const seen = new Set<string>();
+  const edgeId = (u: NodeId, v: NodeId) => {
+    let id = `${u}-${v}`;
+    for (let k = 2; seen.has(id); k++) id = `${u}-${v}-${k}`;
+    seen.add(id);
+    return id;
+  };
+  return {
+    nodes: c.l.map((label, i) => ({
+      id: ids[i],
+      position: c.p ? { x: c.p[i][0], y: c.p[i][1] } : { x: 0, y: 0 },
+      data: { label, status: "unseen", dist: Infinity },
+      sourcePosition: Position.Right,
+      targetPosition: Position.Left,
+    })),
+    edges: c.e.map(([s, t, w]) => ({
+      id: edgeId(ids[s], ids[t]),
+      source: ids[s],
+      target: ids[t],
+      label: String(w),
+      data: { w },
+      markerEnd: { type: MarkerType.ArrowClosed, width: 16, height: 16 },
+    })),
+  };
+}
+
+export function compressGraph(graph: Graph): string {
+  return compressToEncodedURIComponent(JSON.stringify(toCompact(graph)));
+}
+
+// Throws on anything that is not a graph we wrote, and, like an import, on a
+// graph validateGraph reports errors for.
+export function decompressGraph(text: string): Graph {
+  const json = decompressFromEncodedURIComponent(text);
+  if (!json) throw new Error("Embedded graph is damaged");
+  const graph = fromCompact(JSON.parse(json));
+  const error = validateGraph(graph).find((i) => i.severity === "error");
+  if (error) throw new Error(`Embedded graph: ${error.path}: ${error.message}`);
+  return graph;
+}
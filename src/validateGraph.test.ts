@@ -0,0 +1,47 @@
+import { generateGraph } from "./graph";
+import { parseGraph } from "./graphFormats";
+import { autoFix, validateGraph } from "./validateGraph";
+
+const broken = JSON.stringify({
+  startId: "zz",
+  nodes: [
+    { id: "a", data: { label: "A" } },
+    { id: "b", data: { label: "B" } },
+    { id: "a", data: { label: "A again" } },
+  ],
+  edges: [
+    { id: "e1", source: "a", target: "b", data: { w: 2 } },
+    { id: "e1", source: "b", target: "a", data: { w: -1 } },
+    { id: "e3", source: "a", target: "ghost", data: { w: 1 } },
+    { id: "e4", source: "b", target: "a", label: "heavy" },
+  ],
+});
+
+describe("validateGraph", () => {
+  it("accepts generated graphs", () => {
+    expect(validateGraph(generateGraph(12, 0.3, 2))).toEqual([]);
+  });
+
+  it("reports every problem with its JSON path", () => {
+    const issues = validateGraph(parseGraph(broken, "json"));
+    const byPath = Object.fromEntries(issues.map((i) => [i.path, i.severity]));
+    expect(byPath).toEqual({
+      "$.nodes[2].id": "error",
+      "$.edges[1].id": "warning",
+      "$.edges[1].data.w": "warning",
+      "$.edges[2].target": "error",
+      "$.edges[3].data.w": "error",
+      "$.startId": "error",
+    });
+  });
+
+  it("autoFix leaves only warnings that need no fix", () => {
+    const fixed = autoFix(parseGraph(broken, "json"));
+    expect(fixed.nodes.map((n) => n.id)).toEqual(["a", "b", "a_2"]);
+    expect(fixed.edges.map((e) => e.id)).toEqual(["e1", "e1_2"]);
+    expect(fixed.startId).toBeUndefined();
+    expect(validateGraph(fixed).map((i) => i.path)).toEqual([
+      "$.edges[1].data.w",
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+import { Graph, NodeId } from "./graph";
+
+// ---------------- Import validation ----------------
+// Collects every problem of an imported graph instead of stopping at the
+// first. Errors would make the engines misbehave and block loading until
+// fixed; warnings are legal but probably not what the author meant. Paths
+// index the graph as parsed, which for JSON files is the file itself.
+
+export type ValidationIssue = {
+  severity: "error" | "warning";
+  path: string; // e.g. $.edges[3].target
+  message: string;
+  fix?: string; // what autoFix does about it, if anything
+};
+
+export function validateGraph(graph: Graph): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const error = (path: string, message: string, fix?: string) =>
+    issues.push({ severity: "error", path, message, fix });
+  const warning = (path: string, message: string, fix?: string) =>
+    issues.push({ severity: "warning", path, message, fix });
+
+  if (graph.nodes.length === 0) error("$.nodes", "graph has no nodes");
+
+  const firstIndex = new Map<NodeId, number>();
+  graph.nodes.forEach((n, i) => {
+    const first = firstIndex.get(n.id);
+    if (first === undefined) firstIndex.set(n.id, i);
+    else
+      error(
+        `$.nodes[${i}].id`,
+        `duplicate node id "${n.id}" (first at $.nodes[${first}])`,
+        "renumber"
+      );
+  });
+
+  const edgeIds = new Map<string, number>();
+  graph.edges.forEach((e, j) => {
+    [
+      ["source", e.source],
+      ["target", e.target],
+    ].forEach(([end, id]) => {
+      if (!firstIndex.has(id))
+        error(
+          `$.edges[${j}].${end}`,
+          `edge points to missing node "${id}"`,
+          "drop edge"
+        );
+    });
+
+    const w = e.data?.w ?? Number(e.label);
+    if (!Number.isFinite(w))
+      error(
+        `$.edges[${j}].data.w`,
+        `weight ${JSON.stringify(e.label)} is not a number`,
+        "drop edge"
+      );
+    else if (w < 0)
+      warning(
+        `$.edges[${j}].data.w`,
+        `negative weight ${w}: only Bellman–Ford will run`
+      );
+
+    if (e.source === e.target)
+      warning(`$.edges[${j}]`, `self-loop on "${e.source}"`);
+
+    const first = edgeIds.get(e.id);
+    if (first === undefined) edgeIds.set(e.id, j);
+    else
+      warning(
+        `$.edges[${j}].id`,
+        `duplicate edge id "${e.id}" (first at $.edges[${first}])`,
+        "renumber"
+      );
+  });
+
+  if (graph.startId !== undefined && !firstIndex.has(graph.startId))
+    error(
+      "$.startId",
+      `start node "${graph.startId}" does not exist`,
+      "use the first node"
+    );
+
+  return issues;
+}
+
+// Applies every `fix` validateGraph advertises: dangling and NaN-weight edges
+// are dropped, duplicate node and edge ids get a numeric suffix (edges keep
+// pointing at the first node with that id), and a missing start is cleared.
+export function autoFix(graph: Graph): Graph {
+  const taken = new Set<string>();
+  const fresh = (id: string) => {
+    let k = 2;
+    while (taken.has(`${id}_${k}`)) k++;
+    return `${id}_${k}`;
+  };
+
+  const ids = new Set(graph.nodes.map((n) => n.id));
+  graph.nodes.forEach((n) => taken.add(n.id));
+  const seenNodes = new Set<NodeId>();
+  const nodes = graph.nodes.map((n) => {
+    if (!seenNodes.has(n.id)) {
+      seenNodes.add(n.id);
+      return n;
+    }
+    const id = fresh(n.id);
+    taken.add(id);
+    return { ...n, id };
+  });
+
+  graph.edges.forEach((e) => taken.add(e.id));
+  const seenEdges = new Set<string>();
+  const edges = graph.edges
+    .filter(
+      (e) =>
+        ids.has(e.source) &&
+        ids.has(e.target) &&
+        Number.isFinite(e.data?.w ?? Number(e.label))
+    )
+    .map((e) => {
+      if (!seenEdges.has(e.id)) {
+        seenEdges.add(e.id);
+        return e;
+      }
+      const id = fresh(e.id);
+      taken.add(id);
+      return { ...e, id };
+    });
+
+  const startId =
+    graph.startId !== undefined && ids.has(graph.startId)
+      ? graph.startId
+      : undefined;
+  return startId === undefined ? { nodes, edges } : { nodes, edges, startId };
+}